@@ -0,0 +1,402 @@
+/**
+ * @fileoverview Configuration validation.
+ *
+ * Catches misconfigurations that would otherwise only surface as failed
+ * requests in production, or worse, as silently weakened protection.
+ */
+
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_REISSUE_THRESHOLD,
+  DEFAULT_STRATEGY,
+  DEFAULT_TOKEN_EXPIRY,
+} from './constants.js';
+import { getCookiePrefix } from './cookies.js';
+import { CsrfConfigError } from './errors.js';
+import { findStrategy, formatStrategy } from './strategies.js';
+import type {
+  ConfigIssue,
+  CsrfConfig,
+  CsrfSecret,
+  StrategyConfig,
+} from './types.js';
+
+/** Minimum recommended length of HMAC secrets, in characters */
+const MIN_SECRET_LENGTH = 32;
+
+const SIGNED_STRATEGIES = new Set([
+  'signed-double-submit',
+  'signed-token',
+  'encrypted-token',
+  'hybrid',
+]);
+
+/** Strategies whose tokens carry a nonce that `token.singleUse` consumes */
+const SINGLE_USE_STRATEGIES = new Set([
+  'signed-token',
+  'encrypted-token',
+  'hybrid',
+]);
+
+const ORIGIN_STRATEGIES = new Set(['origin-check', 'hybrid', 'fetch-metadata']);
+
+const SIGNING_ALGORITHMS = new Set(['Ed25519', 'ECDSA-P256']);
+
+/**
+ * Collects every strategy name used by a strategy configuration.
+ *
+ * @internal
+ */
+export function collectStrategyNames(strategy: StrategyConfig): string[] {
+  if (typeof strategy === 'string') {
+    return [strategy];
+  }
+
+  const members = 'all' in strategy ? strategy.all : strategy.any;
+  return members.flatMap(collectStrategyNames);
+}
+
+/**
+ * Checks that a strategy configuration resolves: every name is built in or
+ * registered in `strategies`, and every composition has members, at most
+ * one of them token-based.
+ *
+ * @returns Whether the strategy is tokenless, or `undefined` if it does not
+ *   resolve
+ * @internal
+ */
+function checkStrategy(
+  strategy: StrategyConfig,
+  registry: CsrfConfig['strategies'],
+  issues: ConfigIssue[]
+): boolean | undefined {
+  if (typeof strategy === 'string') {
+    const definition = findStrategy(strategy, registry);
+    if (!definition) {
+      issues.push({
+        severity: 'error',
+        path: 'strategy',
+        message: `Unknown strategy "${strategy}". Use a built-in strategy or register it in strategies.`,
+      });
+      return undefined;
+    }
+    return definition.tokenless === true;
+  }
+
+  const members = 'all' in strategy ? strategy.all : strategy.any;
+  if (members.length === 0) {
+    issues.push({
+      severity: 'error',
+      path: 'strategy',
+      message: `Composite strategy ${formatStrategy(strategy)} has no members.`,
+    });
+    return undefined;
+  }
+
+  const tokenless = members.map((member) =>
+    checkStrategy(member, registry, issues)
+  );
+  if (tokenless.includes(undefined)) {
+    return undefined;
+  }
+  const tokenMembers = members.filter((_, index) => tokenless[index] === false);
+  if (tokenMembers.length > 1) {
+    issues.push({
+      severity: 'error',
+      path: 'strategy',
+      message: `Composite strategy ${formatStrategy(strategy)} can contain at most one token-based strategy, got ${tokenMembers.map(formatStrategy).join(', ')}.`,
+    });
+    return undefined;
+  }
+  return tokenMembers.length === 0;
+}
+
+/** Reads `NODE_ENV` without depending on Node.js types or globals. */
+function isProduction(): boolean {
+  const { process } = globalThis as {
+    process?: { env?: { NODE_ENV?: string } };
+  };
+  return process?.env?.NODE_ENV === 'production';
+}
+
+/**
+ * Checks the configured secret or key ring.
+ *
+ * @internal
+ */
+function checkSecret(
+  secret: CsrfSecret | undefined,
+  issues: ConfigIssue[]
+): void {
+  if (secret === undefined) {
+    issues.push({
+      severity: 'warning',
+      path: 'secret',
+      message:
+        'No secret configured. A random secret is generated per process, so tokens are invalidated on restart and rejected by other instances. Set a stable secret shared by all instances.',
+    });
+    return;
+  }
+
+  if (typeof secret === 'string') {
+    if (secret.length === 0) {
+      issues.push({
+        severity: 'error',
+        path: 'secret',
+        message: 'Secret must not be empty.',
+      });
+    } else if (secret.length < MIN_SECRET_LENGTH) {
+      issues.push({
+        severity: 'warning',
+        path: 'secret',
+        message: `Secret is ${secret.length} characters long; use at least ${MIN_SECRET_LENGTH} random characters.`,
+      });
+    }
+    return;
+  }
+
+  if (secret.length === 0) {
+    issues.push({
+      severity: 'error',
+      path: 'secret',
+      message: 'Secret key ring must contain at least one key.',
+    });
+    return;
+  }
+  for (const [index, key] of secret.entries()) {
+    if (!key.id || key.id.includes('.')) {
+      issues.push({
+        severity: 'error',
+        path: `secret[${index}].id`,
+        message: `Invalid key id "${key.id}". Key ids must be non-empty and cannot contain '.'.`,
+      });
+    }
+    if ('algorithm' in key) {
+      if (!SIGNING_ALGORITHMS.has(key.algorithm)) {
+        issues.push({
+          severity: 'error',
+          path: `secret[${index}].algorithm`,
+          message: `Unsupported algorithm "${key.algorithm}". Use 'Ed25519' or 'ECDSA-P256'.`,
+        });
+      }
+      if (!key.publicKey) {
+        issues.push({
+          severity: 'error',
+          path: `secret[${index}].publicKey`,
+          message: 'Asymmetric keys require a public key.',
+        });
+      }
+    } else if (key.secret.length === 0) {
+      issues.push({
+        severity: 'error',
+        path: `secret[${index}].secret`,
+        message: 'Secret must not be empty.',
+      });
+    } else if (key.secret.length < MIN_SECRET_LENGTH) {
+      issues.push({
+        severity: 'warning',
+        path: `secret[${index}].secret`,
+        message: `Secret is ${key.secret.length} characters long; use at least ${MIN_SECRET_LENGTH} random characters.`,
+      });
+    }
+  }
+}
+
+/**
+ * Validates a CSRF configuration.
+ *
+ * Unset options are checked with their default values. Errors describe
+ * configurations that cannot work or leave requests unprotected, such as an
+ * unknown strategy, `sameSite: 'none'` without `secure`, a `__Host-` cookie
+ * with a `domain`, or a `reissueThreshold` at least as long as the token
+ * `expiry`. Warnings describe configurations that work but are unsafe in
+ * production, such as a missing or short secret, or the unsigned
+ * `double-submit` strategy when `NODE_ENV` is `production`.
+ *
+ * Called by the `CsrfProtection` constructor, which passes warnings to
+ * `onConfigWarning`. Call it
+ * directly to check a configuration in CI.
+ *
+ * @public
+ * @param config - CSRF configuration to validate
+ * @returns Warnings found; empty if the configuration is clean
+ * @throws {CsrfConfigError} If the configuration has errors, or any
+ *   warnings when `config.strict` is set; lists every issue found
+ *
+ * @example
+ * ```typescript
+ * import { validateConfig } from '@csrf-armor/core';
+ * import { csrfConfig } from '../src/csrf-config.js';
+ *
+ * // Fails the build on any error or warning
+ * validateConfig({ ...csrfConfig, strict: true });
+ * ```
+ */
+export function validateConfig(config: CsrfConfig): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const strategy =
+    config.strategy ?? DEFAULT_CONFIG.strategy ?? DEFAULT_STRATEGY;
+  const strategies = collectStrategyNames(strategy);
+  checkStrategy(strategy, config.strategies, issues);
+  const cookie = { ...DEFAULT_CONFIG.cookie, ...config.cookie };
+  const token = { ...DEFAULT_CONFIG.token, ...config.token };
+
+  if (cookie.sameSite === 'none' && cookie.secure === false) {
+    issues.push({
+      severity: 'error',
+      path: 'cookie.sameSite',
+      message:
+        "sameSite 'none' requires secure cookies; browsers reject the CSRF cookie otherwise. Set cookie.secure to true or use sameSite 'lax'.",
+    });
+  }
+
+  const prefix = cookie.prefix ?? getCookiePrefix(cookie.name ?? '');
+  if (prefix && cookie.secure === false) {
+    issues.push({
+      severity: 'error',
+      path: 'cookie.secure',
+      message: `${prefix} cookies must be secure; browsers reject them otherwise.`,
+    });
+  }
+  if (prefix === '__Host-') {
+    if (cookie.path !== undefined && cookie.path !== '/') {
+      issues.push({
+        severity: 'error',
+        path: 'cookie.path',
+        message: `__Host- cookies must have path '/', got '${cookie.path}'.`,
+      });
+    }
+    if (cookie.domain !== undefined) {
+      issues.push({
+        severity: 'error',
+        path: 'cookie.domain',
+        message:
+          "__Host- cookies cannot set a domain. Remove cookie.domain, or use the '__Secure-' prefix to share the cookie with subdomains.",
+      });
+    }
+  }
+
+  const expiry = token.expiry ?? DEFAULT_TOKEN_EXPIRY;
+  const reissueThreshold = token.reissueThreshold ?? DEFAULT_REISSUE_THRESHOLD;
+  if (!Number.isFinite(expiry) || expiry <= 0) {
+    issues.push({
+      severity: 'error',
+      path: 'token.expiry',
+      message: `Token expiry must be a positive number of seconds, got ${expiry}.`,
+    });
+  } else if (reissueThreshold >= expiry) {
+    issues.push({
+      severity: 'error',
+      path: 'token.reissueThreshold',
+      message: `reissueThreshold (${reissueThreshold}s) must be less than token.expiry (${expiry}s), or a new token is issued on every request.`,
+    });
+  }
+
+  const sameOrigin = config.sameOrigin ?? DEFAULT_CONFIG.sameOrigin ?? true;
+  const allowedOrigins =
+    config.allowedOrigins ?? DEFAULT_CONFIG.allowedOrigins ?? [];
+  const originStrategy = strategies.find((name) => ORIGIN_STRATEGIES.has(name));
+  if (originStrategy && !sameOrigin && allowedOrigins.length === 0) {
+    issues.push({
+      severity: 'error',
+      path: 'allowedOrigins',
+      message: `Strategy "${originStrategy}" has no allowed origins: sameOrigin is disabled and allowedOrigins is empty, so every cross-origin check fails. Add your origins to allowedOrigins or enable sameOrigin.`,
+    });
+  }
+
+  if (strategies.some((name) => SIGNED_STRATEGIES.has(name))) {
+    checkSecret(config.secret, issues);
+  }
+
+  const signingKey =
+    typeof config.secret === 'string' ? undefined : config.secret?.[0];
+  if (
+    strategies.includes('encrypted-token') &&
+    signingKey &&
+    'algorithm' in signingKey
+  ) {
+    issues.push({
+      severity: 'error',
+      path: 'secret[0]',
+      message:
+        "The 'encrypted-token' strategy requires a secret key; asymmetric keys can only sign tokens.",
+    });
+  }
+
+  if (
+    (config.tokenClaims || config.validateClaims) &&
+    !strategies.includes('encrypted-token')
+  ) {
+    issues.push({
+      severity: 'warning',
+      path: config.tokenClaims ? 'tokenClaims' : 'validateClaims',
+      message:
+        "Token claims are only supported by the 'encrypted-token' strategy and are ignored by the configured strategy.",
+    });
+  }
+
+  if (config.scopedPaths?.length && !config.sessionIdentifier) {
+    issues.push({
+      severity: 'error',
+      path: 'scopedPaths',
+      message:
+        'Scoped tokens must be bound to a session, or a token issued to one user would be accepted from any other. Configure sessionIdentifier.',
+    });
+  }
+
+  if (strategies.includes('synchronizer') && !config.sessionIdentifier) {
+    issues.push({
+      severity: 'error',
+      path: 'sessionIdentifier',
+      message:
+        'Synchronizer tokens must be stored against the application session, or a session reference planted in a cookie would be trusted. Configure sessionIdentifier.',
+    });
+  }
+
+  if (
+    config.token?.singleUse &&
+    !strategies.some((name) => SINGLE_USE_STRATEGIES.has(name))
+  ) {
+    issues.push({
+      severity: 'error',
+      path: 'token.singleUse',
+      message:
+        "Single-use tokens are only supported by the 'signed-token', 'encrypted-token' and 'hybrid' strategies, so tokens of the configured strategy could be replayed.",
+    });
+  } else if (config.token?.singleUse && !config.tokenStore && isProduction()) {
+    issues.push({
+      severity: 'warning',
+      path: 'tokenStore',
+      message:
+        'Single-use tokens are tracked in memory by default, which is not shared between processes and is lost on restart. Configure a shared tokenStore such as RedisTokenStore in production.',
+    });
+  }
+
+  if (
+    strategies.includes('synchronizer') &&
+    !config.sessionStore &&
+    isProduction()
+  ) {
+    issues.push({
+      severity: 'warning',
+      path: 'sessionStore',
+      message:
+        'Synchronizer tokens are stored in memory by default, which is not shared between processes and is lost on restart. Configure a shared sessionStore such as RedisSessionStore in production.',
+    });
+  }
+
+  if (strategies.includes('double-submit') && isProduction()) {
+    issues.push({
+      severity: 'warning',
+      path: 'strategy',
+      message:
+        "The double-submit strategy uses unsigned tokens that can be forged by anyone able to set cookies on your domain, such as a compromised subdomain. Use 'signed-double-submit' in production.",
+    });
+  }
+
+  const strict = config.strict ?? false;
+  if (issues.some((issue) => issue.severity === 'error' || strict)) {
+    throw new CsrfConfigError(issues);
+  }
+  return issues;
+}
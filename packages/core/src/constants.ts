@@ -1,5 +1,5 @@
 import { generateSecureSecret } from './crypto.js';
-import type { CookieOptions, CsrfConfig } from './types.js';
+import type { CookieOptions, CsrfConfig, CsrfStrategy } from './types.js';
 
 /**
  * HTTP methods that are considered safe and don't require CSRF protection.
@@ -53,6 +53,14 @@ export const CSRF_TOKEN_HEADER = 'x-csrf-token';
  */
 export const CSRF_STRATEGY_HEADER = 'x-csrf-strategy';
 
+/**
+ * HTTP header carrying the failure code of a request that failed validation
+ * in `report-only` mode.
+ *
+ * @internal
+ */
+export const CSRF_REPORT_HEADER = 'x-csrf-report';
+
 /**
  * Default length for cryptographic nonces in most CSRF strategies.
  * Provides 256 bits of entropy for strong security.
@@ -70,6 +78,28 @@ export const DEFAULT_NONCE_LENGTH = 32;
  */
 export const ORIGIN_CHECK_NONCE_LENGTH = 16;
 
+/**
+ * Strategy used when none is configured.
+ *
+ * @internal
+ */
+export const DEFAULT_STRATEGY: CsrfStrategy = 'signed-double-submit';
+
+/**
+ * Token lifetime in seconds used when none is configured.
+ *
+ * @internal
+ */
+export const DEFAULT_TOKEN_EXPIRY = 3600;
+
+/**
+ * Seconds before expiry at which a new token is issued, used when none is
+ * configured.
+ *
+ * @internal
+ */
+export const DEFAULT_REISSUE_THRESHOLD = 500;
+
 /**
  * Default cookie configuration for CSRF tokens.
  *
@@ -135,16 +165,29 @@ export const DEFAULT_COOKIE_OPTIONS: CookieOptions = {
  * ```
  */
 export const DEFAULT_CONFIG: CsrfConfig = {
-  strategy: 'signed-double-submit',
+  strategy: DEFAULT_STRATEGY,
+  mode: 'enforce',
   token: {
-    expiry: 3600,
+    expiry: DEFAULT_TOKEN_EXPIRY,
     headerName: 'X-CSRF-Token',
     fieldName: 'csrf_token',
-    reissueThreshold: 500,
+    reissueThreshold: DEFAULT_REISSUE_THRESHOLD,
+    mask: false,
+    singleUse: false,
   },
   cookie: DEFAULT_COOKIE_OPTIONS,
+  duplicateCookiePolicy: 'reject',
   secret: generateSecureSecret(),
   allowedOrigins: [],
+  sameOrigin: true,
+  nullOriginPolicy: 'reject',
+  strictReferer: true,
+  trustedProxies: [],
+  fetchMetadata: {
+    allowSameSite: false,
+  },
   excludePaths: [],
+  includePaths: [],
   skipContentTypes: [],
+  scopedPaths: [],
 } as const;
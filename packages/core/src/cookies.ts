@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Cookie name prefixes and duplicate cookie handling.
+ *
+ * Browsers only accept a `__Secure-` cookie when it is `Secure`, and a
+ * `__Host-` cookie when it is also host-only with `Path=/`. A subdomain can
+ * therefore never set or overwrite a `__Host-` cookie for its parent, which
+ * defeats cookie tossing attacks against double-submit tokens.
+ *
+ * Also parses `Cookie` headers without dropping cookies sent more than
+ * once, so that planted duplicates of the CSRF cookie can be detected.
+ */
+
+import { getCookies, getCookieValues } from './request.js';
+import type {
+  CookiePrefix,
+  CsrfRequest,
+  RequiredCookieOptions,
+} from './types.js';
+
+const COOKIE_PREFIXES: readonly CookiePrefix[] = ['__Host-', '__Secure-'];
+
+/**
+ * Returns the prefix a cookie name starts with, if any.
+ *
+ * @public
+ * @param name - Full cookie name
+ * @returns The cookie prefix, or `undefined` for unprefixed names
+ */
+export function getCookiePrefix(name: string): CookiePrefix | undefined {
+  return COOKIE_PREFIXES.find((prefix) => name.startsWith(prefix));
+}
+
+/**
+ * Prepends a cookie prefix to a cookie name, unless the name already
+ * starts with it.
+ *
+ * @public
+ * @param name - Cookie name
+ * @param prefix - Cookie prefix to apply
+ * @returns The full cookie name
+ *
+ * @example
+ * ```typescript
+ * applyCookiePrefix('csrf-token', '__Host-'); // '__Host-csrf-token'
+ * applyCookiePrefix('__Host-csrf-token', '__Host-'); // '__Host-csrf-token'
+ * ```
+ */
+export function applyCookiePrefix(name: string, prefix?: CookiePrefix): string {
+  if (!prefix || name.startsWith(prefix)) {
+    return name;
+  }
+  return `${prefix}${name}`;
+}
+
+/**
+ * Adjusts cookie options to the attributes browsers require for a prefixed
+ * cookie name: `Secure` for both prefixes, plus `Path=/` and no `Domain`
+ * for `__Host-`. Options for unprefixed names are returned unchanged.
+ *
+ * @internal
+ */
+export function enforceCookiePrefix(
+  name: string,
+  options: RequiredCookieOptions
+): RequiredCookieOptions {
+  const prefix = getCookiePrefix(name);
+  if (!prefix) {
+    return options;
+  }
+  if (prefix === '__Secure-') {
+    return { ...options, secure: true };
+  }
+
+  const { domain: _domain, ...hostOptions } = options;
+  return { ...hostOptions, secure: true, path: '/' };
+}
+
+/**
+ * Parses a `Cookie` request header, keeping every value of cookies that are
+ * sent more than once, in header order. Values are URI-decoded when
+ * possible.
+ *
+ * Adapters use it to fill `CsrfRequest.cookieValues`.
+ *
+ * @public
+ * @param header - Raw `Cookie` header
+ * @returns Values of each cookie, keyed by name
+ *
+ * @example
+ * ```typescript
+ * parseCookieHeader('csrf-token=abc; theme=dark; csrf-token=evil');
+ * // Map { 'csrf-token' => ['abc', 'evil'], 'theme' => ['dark'] }
+ * ```
+ */
+export function parseCookieHeader(
+  header: string | null | undefined
+): Map<string, string[]> {
+  const cookies = new Map<string, string[]>();
+  if (!header) {
+    return cookies;
+  }
+
+  for (const pair of header.split(';')) {
+    const eqIndex = pair.indexOf('=');
+    if (eqIndex === -1) {
+      continue;
+    }
+    const name = pair.slice(0, eqIndex).trim();
+    let value = pair.slice(eqIndex + 1).trim();
+    if (value.length > 1 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    try {
+      value = decodeURIComponent(value);
+    } catch {
+      // Keep the raw value
+    }
+
+    const values = cookies.get(name);
+    if (values) {
+      values.push(value);
+    } else {
+      cookies.set(name, [value]);
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Returns the cookie names that were sent with more than one distinct
+ * value.
+ *
+ * @internal
+ */
+export function findDuplicateCookies(
+  request: CsrfRequest,
+  names: readonly string[]
+): string[] {
+  const cookieValues = getCookieValues(request);
+  return names.filter((name) => new Set(cookieValues.get(name)).size > 1);
+}
+
+/**
+ * Returns a copy of the request whose `cookies` hold the first or last
+ * value sent for each of the given cookie names.
+ *
+ * @internal
+ */
+export function selectCookieValues(
+  request: CsrfRequest,
+  names: readonly string[],
+  policy: 'first' | 'last'
+): CsrfRequest {
+  const cookieValues = getCookieValues(request);
+  const cookies = new Map(getCookies(request));
+  for (const name of names) {
+    const values = cookieValues.get(name) ?? [];
+    const value = policy === 'first' ? values[0] : values[values.length - 1];
+    if (value !== undefined) {
+      cookies.set(name, value);
+    }
+  }
+  return { ...request, cookies };
+}
@@ -7,8 +7,53 @@
  * token security.
  */
 
-import { TokenExpiredError, TokenInvalidError } from './errors.js';
-import type { TokenPayload } from './types.js';
+import {
+  BadSignatureError,
+  TokenExpiredError,
+  TokenInvalidError,
+} from './errors.js';
+import type {
+  AsymmetricKey,
+  CsrfSecret,
+  SecretKey,
+  SigningAlgorithm,
+  TokenClaims,
+  TokenPayload,
+  TokenScope,
+} from './types.js';
+
+/** Prefix of signed scoped-token messages, separating them from other tokens */
+const SCOPED_TOKEN_CONTEXT = 'scoped!';
+
+/** HKDF `info` that separates encryption keys from signing keys */
+const ENCRYPTION_KEY_INFO = 'csrf-armor encrypted-token v1';
+
+/** Length of AES-GCM initialization vectors, in bytes */
+const IV_LENGTH = 12;
+
+/** Web Crypto parameters for each asymmetric signing algorithm */
+const SIGNING_ALGORITHMS: Readonly<
+  Record<
+    SigningAlgorithm,
+    {
+      readonly key: EcKeyImportParams | Algorithm;
+      readonly signature: EcdsaParams | Algorithm;
+    }
+  >
+> = {
+  Ed25519: { key: { name: 'Ed25519' }, signature: { name: 'Ed25519' } },
+  'ECDSA-P256': {
+    key: { name: 'ECDSA', namedCurve: 'P-256' },
+    signature: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+};
+
+/** Key material for one key: an HMAC secret or an asymmetric key pair */
+type KeyMaterial = string | AsymmetricKey;
+
+function isAsymmetricKey(key: SecretKey | AsymmetricKey): key is AsymmetricKey {
+  return 'algorithm' in key;
+}
 
 class CryptoKeyCache {
   private static instance: CryptoKeyCache;
@@ -27,7 +72,81 @@ class CryptoKeyCache {
   }
 
   async getCachedKey(secret: string): Promise<CryptoKey> {
-    const cached = this.keyCache.get(secret);
+    return this.getOrImport(`hmac:${secret}`, () =>
+      crypto.subtle.importKey(
+        'raw',
+        this.encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+      )
+    );
+  }
+
+  /**
+   * Derives an AES-GCM key from a secret with HKDF, so the same secret can
+   * sign and encrypt without reusing key material.
+   */
+  async getEncryptionKey(secret: string): Promise<CryptoKey> {
+    return this.getOrImport(`aes-gcm:${secret}`, async () => {
+      const keyMaterial = await crypto.subtle.importKey(
+        'raw',
+        this.encoder.encode(secret),
+        'HKDF',
+        false,
+        ['deriveKey']
+      );
+      return crypto.subtle.deriveKey(
+        {
+          name: 'HKDF',
+          hash: 'SHA-256',
+          salt: new Uint8Array(),
+          info: this.encoder.encode(ENCRYPTION_KEY_INFO),
+        },
+        keyMaterial,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+    });
+  }
+
+  /**
+   * Returns the private or public half of an asymmetric key, importing JSON
+   * Web Keys on first use.
+   */
+  async getAsymmetricKey(
+    key: AsymmetricKey,
+    usage: 'sign' | 'verify'
+  ): Promise<CryptoKey> {
+    const material = usage === 'sign' ? key.privateKey : key.publicKey;
+    if (!material) {
+      throw new Error(
+        `CSRF Error: Key "${key.id}" has no private key and can only verify tokens.`
+      );
+    }
+    if (material instanceof CryptoKey) {
+      return material;
+    }
+
+    return this.getOrImport(
+      `${key.algorithm}:${usage}:${JSON.stringify(material)}`,
+      () =>
+        crypto.subtle.importKey(
+          'jwk',
+          material,
+          SIGNING_ALGORITHMS[key.algorithm].key,
+          false,
+          [usage]
+        )
+    );
+  }
+
+  private async getOrImport(
+    cacheKey: string,
+    importKey: () => Promise<CryptoKey>
+  ): Promise<CryptoKey> {
+    const cached = this.keyCache.get(cacheKey);
 
     if (cached) {
       cached.lastUsed = Date.now();
@@ -50,16 +169,8 @@ class CryptoKeyCache {
       }
     }
 
-    const keyBuffer = this.encoder.encode(secret);
-    const key = await crypto.subtle.importKey(
-      'raw',
-      keyBuffer,
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    );
-
-    this.keyCache.set(secret, { key, lastUsed: Date.now() });
+    const key = await importKey();
+    this.keyCache.set(cacheKey, { key, lastUsed: Date.now() });
     return key;
   }
 }
@@ -115,16 +226,232 @@ export function generateSecureSecret(): string {
   return btoa(String.fromCharCode.apply(null, [...bytes]));
 }
 
+/**
+ * Generates an asymmetric key pair for signing tokens.
+ *
+ * Store the private key with the services that issue tokens, and give the
+ * public key alone to services that only verify them.
+ *
+ * @public
+ * @param algorithm - Signature algorithm (default: 'Ed25519')
+ * @returns Promise resolving to the private and public key as JSON Web Keys
+ *
+ * @example
+ * ```typescript
+ * import { generateSigningKeyPair } from '@csrf-armor/core';
+ *
+ * const { privateKey, publicKey } = await generateSigningKeyPair('Ed25519');
+ * console.log(JSON.stringify(publicKey)); // {"crv":"Ed25519","x":"...",...}
+ * ```
+ */
+export async function generateSigningKeyPair(
+  algorithm: SigningAlgorithm = 'Ed25519'
+): Promise<{ privateKey: JsonWebKey; publicKey: JsonWebKey }> {
+  const keyPair = (await crypto.subtle.generateKey(
+    SIGNING_ALGORITHMS[algorithm].key,
+    true,
+    ['sign', 'verify']
+  )) as CryptoKeyPair;
+
+  return {
+    privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey),
+    publicKey: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+  };
+}
+
+/**
+ * Resolves the key used to sign new tokens.
+ *
+ * A plain secret string has no identifier, which keeps the legacy token
+ * format. For a key ring the first entry is the signing key.
+ *
+ * @internal
+ * @throws {Error} If the key ring is empty or the signing key id is invalid
+ */
+function getSigningKey(secret: CsrfSecret): {
+  readonly id?: string;
+  readonly key: KeyMaterial;
+} {
+  if (typeof secret === 'string') {
+    return { key: secret };
+  }
+
+  const [current] = secret;
+  if (!current) {
+    throw new Error(
+      'CSRF Error: Secret key ring must contain at least one key.'
+    );
+  }
+  if (!current.id || current.id.includes('.')) {
+    throw new Error(
+      `CSRF Error: Invalid key id "${current.id}". Key ids must be non-empty and cannot contain '.'.`
+    );
+  }
+
+  return {
+    id: current.id,
+    key: isAsymmetricKey(current) ? current : current.secret,
+  };
+}
+
+/**
+ * Returns the identifier of the key currently used for signing, or
+ * `undefined` when a single secret string is configured.
+ *
+ * Used to detect tokens signed with a retired key so they can be reissued.
+ *
+ * @internal
+ */
+export function getSigningKeyId(secret: CsrfSecret): string | undefined {
+  return getSigningKey(secret).id;
+}
+
+/**
+ * Returns whether the current signing key is an asymmetric key without a
+ * private key, in which case tokens can be verified but not issued.
+ *
+ * @internal
+ */
+export function isVerifyOnly(secret: CsrfSecret): boolean {
+  const { key } = getSigningKey(secret);
+  return typeof key !== 'string' && !key.privateKey;
+}
+
+/**
+ * Collects the keys a token may be verified against.
+ *
+ * Tokens carrying a key id are only checked against the matching key.
+ * Tokens without one were issued before a key ring was configured, so
+ * every key in the ring is tried.
+ *
+ * @internal
+ */
+function getVerificationKeys(
+  secret: CsrfSecret,
+  kid: string | undefined
+): KeyMaterial[] {
+  if (typeof secret === 'string') {
+    return kid === undefined ? [secret] : [];
+  }
+
+  return secret
+    .filter((key) => kid === undefined || key.id === kid)
+    .map((key) => (isAsymmetricKey(key) ? key : key.secret));
+}
+
+/**
+ * Splits a token into its optional key id and the remaining parts.
+ *
+ * Key ring tokens carry one extra leading part compared to the legacy
+ * format. Plain secret strings only accept the legacy part count.
+ *
+ * @internal
+ */
+function splitKeyId(
+  parts: string[],
+  legacyLength: number,
+  secret: CsrfSecret
+): { kid: string | undefined; rest: string[] } | null {
+  if (parts.length === legacyLength) {
+    return { kid: undefined, rest: parts };
+  }
+
+  if (typeof secret !== 'string' && parts.length === legacyLength + 1) {
+    const [kid, ...rest] = parts;
+    if (!kid) {
+      throw new TokenInvalidError('Token parts cannot be empty');
+    }
+    return { kid, rest };
+  }
+
+  return null;
+}
+
+/**
+ * Mixes a session identifier into the signed message.
+ *
+ * The identifier is length-prefixed so that no two (session, payload) pairs
+ * produce the same message. It is never written into the token itself.
+ *
+ * @internal
+ */
+function bindSession(payload: string, sessionId: string | undefined): string {
+  return sessionId === undefined
+    ? payload
+    : `${sessionId.length}!${sessionId}!${payload}`;
+}
+
+/**
+ * Verifies a signature against each candidate key.
+ *
+ * Every candidate is checked so the time taken does not reveal which
+ * key (if any) matched.
+ *
+ * @internal
+ */
+async function verifySignature(
+  payload: string,
+  signature: string,
+  keys: readonly KeyMaterial[]
+): Promise<boolean> {
+  let matched = false;
+  for (const candidate of keys) {
+    if (typeof candidate !== 'string') {
+      if (await verifyAsymmetricSignature(payload, signature, candidate)) {
+        matched = true;
+      }
+      continue;
+    }
+
+    const expectedSignature = await signPayload(payload, candidate);
+    if (timingSafeEqual(signature, expectedSignature)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Verifies a hex-encoded signature with the public half of a key pair.
+ *
+ * @internal
+ */
+async function verifyAsymmetricSignature(
+  payload: string,
+  signature: string,
+  key: AsymmetricKey
+): Promise<boolean> {
+  if (!/^(?:[a-f0-9]{2})+$/.test(signature)) {
+    return false;
+  }
+
+  const signatureBytes = Uint8Array.from(signature.match(/../g) ?? [], (byte) =>
+    Number.parseInt(byte, 16)
+  );
+  const publicKey = await CryptoKeyCache.getInstance().getAsymmetricKey(
+    key,
+    'verify'
+  );
+  return crypto.subtle.verify(
+    SIGNING_ALGORITHMS[key.algorithm].signature,
+    publicKey,
+    signatureBytes,
+    new TextEncoder().encode(payload)
+  );
+}
+
 /**
  * Generates a cryptographically signed CSRF token with expiration.
  *
  * Creates a tamper-proof token that includes an expiration timestamp and
  * a random nonce, secured with an HMAC-SHA256 signature. The token format
- * is: `{expiration}.{nonce}.{signature}`
+ * is: `{expiration}.{nonce}.{signature}`, or `{kid}.{expiration}.{nonce}.{signature}`
+ * when a key ring is used. The key id is covered by the signature.
  *
  * @public
- * @param secret - Secret key for HMAC signing (must be consistent across requests)
+ * @param secret - Secret key or key ring for HMAC signing (must be consistent across requests)
  * @param expirySeconds - Token validity duration in seconds from now
+ * @param sessionId - Optional session identifier the token is bound to
  * @returns Promise resolving to the signed token string
  *
  * @example
@@ -142,15 +469,23 @@ export function generateSecureSecret(): string {
  * @throws {Error} If Web Crypto API is not available or signing fails
  */
 export async function generateSignedToken(
-  secret: string,
-  expirySeconds: number
+  secret: CsrfSecret,
+  expirySeconds: number,
+  sessionId?: string
 ): Promise<string> {
+  const signingKey = getSigningKey(secret);
   const timestamp = Math.floor(Date.now() / 1000);
   const exp = timestamp + expirySeconds;
   const nonce = generateNonce();
 
-  const payload = `${exp}.${nonce}`;
-  const signature = await signPayload(payload, secret);
+  const payload =
+    signingKey.id === undefined
+      ? `${exp}.${nonce}`
+      : `${signingKey.id}.${exp}.${nonce}`;
+  const signature = await signPayload(
+    bindSession(payload, sessionId),
+    signingKey.key
+  );
 
   return `${payload}.${signature}`;
 }
@@ -162,9 +497,15 @@ export async function generateSignedToken(
  * verifies the signature, and checks that the token hasn't expired.
  * Uses timing-safe comparison to prevent timing-based attacks.
  *
+ * When `secret` is a key ring, tokens are verified against the key named by
+ * their embedded key id. Tokens without a key id are accepted if any key in
+ * the ring verifies them, so tokens issued before switching to a key ring
+ * remain valid until they expire.
+ *
  * @public
  * @param token - The signed token string to parse
- * @param secret - Secret key used for signature verification
+ * @param secret - Secret key or key ring used for signature verification
+ * @param sessionId - Session identifier the token must be bound to, if any
  * @returns Promise resolving to the validated token payload
  *
  * @example
@@ -184,19 +525,22 @@ export async function generateSignedToken(
  * }
  * ```
  *
- * @throws {TokenInvalidError} If token format is invalid or signature verification fails
+ * @throws {TokenInvalidError} If token format is invalid
+ * @throws {BadSignatureError} If signature verification fails
  * @throws {TokenExpiredError} If token has expired based on current time
  */
 export async function parseSignedToken(
   token: string,
-  secret: string
+  secret: CsrfSecret,
+  sessionId?: string
 ): Promise<TokenPayload> {
-  const parts = token.split('.');
-  if (parts.length !== 3) {
+  const split = splitKeyId(token.split('.'), 3, secret);
+  if (!split) {
     throw new TokenInvalidError('Token must have 3 parts');
   }
 
-  const [expStr, nonce, signature] = parts;
+  const { kid } = split;
+  const [expStr, nonce, signature] = split.rest;
 
   if (!expStr || !nonce || !signature) {
     throw new TokenInvalidError('Token parts cannot be empty');
@@ -208,11 +552,18 @@ export async function parseSignedToken(
     throw new TokenInvalidError('Invalid expiration timestamp');
   }
 
-  const payload = `${expStr}.${nonce}`;
-  const expectedSignature = await signPayload(payload, secret);
+  const payload =
+    kid === undefined ? `${expStr}.${nonce}` : `${kid}.${expStr}.${nonce}`;
+  const keys = getVerificationKeys(secret, kid);
 
-  if (!timingSafeEqual(signature, expectedSignature)) {
-    throw new TokenInvalidError('Invalid signature');
+  if (keys.length === 0) {
+    throw new BadSignatureError('Unknown key id');
+  }
+
+  if (
+    !(await verifySignature(bindSession(payload, sessionId), signature, keys))
+  ) {
+    throw new BadSignatureError('Invalid signature');
   }
 
   const currentTime = Math.floor(Date.now() / 1000);
@@ -220,18 +571,20 @@ export async function parseSignedToken(
     throw new TokenExpiredError();
   }
 
-  return { exp, nonce };
+  return kid === undefined ? { exp, nonce } : { exp, nonce, kid };
 }
 
 /**
  * Signs an existing unsigned token with HMAC-SHA256.
  *
  * Takes a plain token string and appends a cryptographic signature,
- * creating a signed token in the format: `{token}.{signature}`
+ * creating a signed token in the format: `{token}.{signature}`, or
+ * `{kid}.{token}.{signature}` when a key ring is used.
  *
  * @public
  * @param unsignedToken - The token string to sign
- * @param secret - Secret key for HMAC signing
+ * @param secret - Secret key or key ring for HMAC signing
+ * @param sessionId - Optional session identifier the token is bound to
  * @returns Promise resolving to the signed token
  *
  * @example
@@ -245,10 +598,19 @@ export async function parseSignedToken(
  */
 export async function signUnsignedToken(
   unsignedToken: string,
-  secret: string
+  secret: CsrfSecret,
+  sessionId?: string
 ): Promise<string> {
-  const signature = await signPayload(unsignedToken, secret);
-  return `${unsignedToken}.${signature}`;
+  const signingKey = getSigningKey(secret);
+  const payload =
+    signingKey.id === undefined
+      ? unsignedToken
+      : `${signingKey.id}.${unsignedToken}`;
+  const signature = await signPayload(
+    bindSession(payload, sessionId),
+    signingKey.key
+  );
+  return `${payload}.${signature}`;
 }
 
 /**
@@ -259,8 +621,9 @@ export async function signUnsignedToken(
  * comparison to prevent timing-based signature attacks.
  *
  * @public
- * @param signedToken - The signed token to verify (format: `{token}.{signature}`)
- * @param secret - Secret key used for signature verification
+ * @param signedToken - The signed token to verify (format: `{token}.{signature}` or `{kid}.{token}.{signature}`)
+ * @param secret - Secret key or key ring used for signature verification
+ * @param sessionId - Session identifier the token must be bound to, if any
  * @returns Promise resolving to the original unsigned token
  *
  * @example
@@ -278,46 +641,504 @@ export async function signUnsignedToken(
  * }
  * ```
  *
- * @throws {TokenInvalidError} If token format is invalid or signature verification fails
+ * @throws {TokenInvalidError} If token format is invalid
+ * @throws {BadSignatureError} If signature verification fails
  */
 export async function verifySignedToken(
   signedToken: string,
-  secret: string
+  secret: CsrfSecret,
+  sessionId?: string
 ): Promise<string> {
-  const parts = signedToken.split('.');
-  if (parts.length !== 2) {
+  const split = splitKeyId(signedToken.split('.'), 2, secret);
+  if (!split) {
     throw new TokenInvalidError('Signed token must have 2 parts');
   }
 
-  const [unsignedToken, signature] = parts;
+  const { kid } = split;
+  const [unsignedToken, signature] = split.rest;
 
   if (!unsignedToken || !signature) {
     throw new TokenInvalidError('Token parts cannot be empty');
   }
 
-  const expectedSignature = await signPayload(unsignedToken, secret);
+  const payload = kid === undefined ? unsignedToken : `${kid}.${unsignedToken}`;
+  const keys = getVerificationKeys(secret, kid);
 
-  if (!timingSafeEqual(signature, expectedSignature)) {
-    throw new TokenInvalidError('Invalid signature');
+  if (keys.length === 0) {
+    throw new BadSignatureError('Unknown key id');
+  }
+
+  if (
+    !(await verifySignature(bindSession(payload, sessionId), signature, keys))
+  ) {
+    throw new BadSignatureError('Invalid signature');
   }
 
   return unsignedToken;
 }
 
-async function signPayload(payload: string, secret: string): Promise<string> {
+/**
+ * Encodes the action of a scoped token as base64url `METHOD path`.
+ *
+ * @internal
+ */
+function encodeScope(scope: TokenScope): string {
+  return toBase64Url(
+    new TextEncoder().encode(`${scope.method.toUpperCase()} ${scope.path}`)
+  );
+}
+
+/**
+ * Decodes the action of a scoped token.
+ *
+ * @internal
+ */
+function decodeScope(encoded: string): TokenScope | null {
+  const bytes = fromBase64Url(encoded);
+  if (!bytes) {
+    return null;
+  }
+
+  let decoded: string;
+  try {
+    decoded = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+  const separator = decoded.indexOf(' ');
+  if (separator <= 0 || separator === decoded.length - 1) {
+    return null;
+  }
+  return {
+    method: decoded.slice(0, separator),
+    path: decoded.slice(separator + 1),
+  };
+}
+
+/**
+ * Generates a signed token that is only valid for one action: a request
+ * method and exact pathname, both covered by the signature.
+ *
+ * The token format is `{exp}.{nonce}.{scope}.{signature}`, or
+ * `{kid}.{exp}.{nonce}.{scope}.{signature}` when a key ring is used, where
+ * `scope` is the base64url-encoded `METHOD path`. The signed message is
+ * domain-separated from other signed tokens, so a scoped token is never
+ * accepted as a regular one.
+ *
+ * @public
+ * @param secret - Secret key or key ring for signing
+ * @param expirySeconds - Token validity duration in seconds from now
+ * @param scope - Method and exact pathname the token is valid for
+ * @param sessionId - Optional session identifier the token is bound to
+ * @returns Promise resolving to the scoped token
+ *
+ * @example
+ * ```typescript
+ * const token = await generateScopedToken(secret, 300, {
+ *   method: 'POST',
+ *   path: '/account/delete',
+ * });
+ * ```
+ */
+export async function generateScopedToken(
+  secret: CsrfSecret,
+  expirySeconds: number,
+  scope: TokenScope,
+  sessionId?: string
+): Promise<string> {
+  const signingKey = getSigningKey(secret);
+  const exp = Math.floor(Date.now() / 1000) + expirySeconds;
+  const parts = [`${exp}`, generateNonce(), encodeScope(scope)];
+  if (signingKey.id !== undefined) {
+    parts.unshift(signingKey.id);
+  }
+
+  const payload = parts.join('.');
+  const signature = await signPayload(
+    bindSession(SCOPED_TOKEN_CONTEXT + payload, sessionId),
+    signingKey.key
+  );
+  return `${payload}.${signature}`;
+}
+
+/**
+ * Parses and validates a token from {@link generateScopedToken}.
+ *
+ * Only the signature and expiry are checked; the caller compares the
+ * returned `scope` with the request.
+ *
+ * @public
+ * @param token - The scoped token to parse
+ * @param secret - Secret key or key ring used for signature verification
+ * @param sessionId - Session identifier the token must be bound to, if any
+ * @returns Promise resolving to the validated payload, including its scope
+ *
+ * @throws {TokenInvalidError} If token format is invalid
+ * @throws {BadSignatureError} If signature verification fails
+ * @throws {TokenExpiredError} If token has expired based on current time
+ */
+export async function parseScopedToken(
+  token: string,
+  secret: CsrfSecret,
+  sessionId?: string
+): Promise<TokenPayload & { readonly scope: TokenScope }> {
+  const split = splitKeyId(token.split('.'), 4, secret);
+  if (!split) {
+    throw new TokenInvalidError('Scoped token must have 4 parts');
+  }
+
+  const { kid } = split;
+  const [expStr, nonce, encodedScope, signature] = split.rest;
+  if (!expStr || !nonce || !encodedScope || !signature) {
+    throw new TokenInvalidError('Token parts cannot be empty');
+  }
+
+  const exp = Number.parseInt(expStr, 10);
+  if (Number.isNaN(exp)) {
+    throw new TokenInvalidError('Invalid expiration timestamp');
+  }
+
+  const scope = decodeScope(encodedScope);
+  if (!scope) {
+    throw new TokenInvalidError('Invalid token scope');
+  }
+
+  const keys = getVerificationKeys(secret, kid);
+  if (keys.length === 0) {
+    throw new BadSignatureError('Unknown key id');
+  }
+
+  const payload = token.slice(0, token.lastIndexOf('.'));
+  if (
+    !(await verifySignature(
+      bindSession(SCOPED_TOKEN_CONTEXT + payload, sessionId),
+      signature,
+      keys
+    ))
+  ) {
+    throw new BadSignatureError('Invalid signature');
+  }
+
+  if (Math.floor(Date.now() / 1000) > exp) {
+    throw new TokenExpiredError();
+  }
+
+  return kid === undefined ? { exp, nonce, scope } : { exp, nonce, kid, scope };
+}
+
+/**
+ * Generates an encrypted CSRF token carrying custom claims.
+ *
+ * The payload (`exp`, `iat`, `nonce` and `claims`) is serialized to JSON
+ * and encrypted with AES-256-GCM, using a key derived from the secret with
+ * HKDF. Unlike signed tokens, the payload cannot be read without the
+ * secret. The token format is `{iv}.{ciphertext}`, or
+ * `{kid}.{iv}.{ciphertext}` when a key ring is used. The key id and the
+ * session identifier are authenticated as additional data.
+ *
+ * @public
+ * @param secret - Secret key or key ring to derive the encryption key from
+ * @param expirySeconds - Token validity duration in seconds from now
+ * @param claims - JSON-serializable claims to embed in the token
+ * @param sessionId - Optional session identifier the token is bound to
+ * @returns Promise resolving to the encrypted token string
+ *
+ * @example
+ * ```typescript
+ * import { generateEncryptedToken } from '@csrf-armor/core';
+ *
+ * const token = await generateEncryptedToken('my-secret-key', 3600, {
+ *   userId: 'u_123',
+ *   tenant: 'acme',
+ * });
+ * ```
+ */
+export async function generateEncryptedToken<
+  TClaims extends TokenClaims = TokenClaims,
+>(
+  secret: CsrfSecret,
+  expirySeconds: number,
+  claims?: TClaims,
+  sessionId?: string
+): Promise<string> {
+  const signingKey = getSigningKey(secret);
+  const iat = Math.floor(Date.now() / 1000);
+  const payload = {
+    exp: iat + expirySeconds,
+    iat,
+    nonce: generateNonce(),
+    claims: claims ?? {},
+  };
+
+  const encoder = new TextEncoder();
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  if (typeof signingKey.key !== 'string') {
+    throw new Error(
+      'CSRF Error: Encrypted tokens require a secret key; asymmetric keys can only sign tokens.'
+    );
+  }
+  const key = await CryptoKeyCache.getInstance().getEncryptionKey(
+    signingKey.key
+  );
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv,
+      additionalData: encoder.encode(
+        bindSession(signingKey.id ?? '', sessionId)
+      ),
+    },
+    key,
+    encoder.encode(JSON.stringify(payload))
+  );
+
+  const sealed = `${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+  return signingKey.id === undefined ? sealed : `${signingKey.id}.${sealed}`;
+}
+
+/**
+ * Decrypts a payload with each candidate secret.
+ *
+ * Every candidate is tried so the time taken does not reveal which key
+ * (if any) matched.
+ *
+ * @internal
+ */
+async function decryptPayload(
+  iv: Uint8Array<ArrayBuffer>,
+  ciphertext: Uint8Array<ArrayBuffer>,
+  additionalData: string,
+  secrets: readonly string[]
+): Promise<string | null> {
+  let plaintext: string | null = null;
+  for (const candidate of secrets) {
+    const key = await CryptoKeyCache.getInstance().getEncryptionKey(candidate);
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv,
+          additionalData: new TextEncoder().encode(additionalData),
+        },
+        key,
+        ciphertext
+      );
+      plaintext ??= new TextDecoder().decode(decrypted);
+    } catch {
+      // Wrong key, tampered token or different session
+    }
+  }
+  return plaintext;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Decrypts and validates an encrypted CSRF token.
+ *
+ * Key rings are handled as in {@link parseSignedToken}: tokens are decrypted
+ * with the key named by their key id, and tokens without one with any key
+ * in the ring.
+ *
+ * @public
+ * @param token - The encrypted token string to parse
+ * @param secret - Secret key or key ring the token was encrypted with
+ * @param sessionId - Session identifier the token must be bound to, if any
+ * @returns Promise resolving to the token payload, including its claims
+ *
+ * @example
+ * ```typescript
+ * import { parseEncryptedToken } from '@csrf-armor/core';
+ *
+ * const payload = await parseEncryptedToken<{ tenant: string }>(
+ *   receivedToken,
+ *   'my-secret-key'
+ * );
+ * console.log('Token tenant:', payload.claims?.tenant);
+ * ```
+ *
+ * @throws {TokenInvalidError} If the token format or payload is invalid
+ * @throws {BadSignatureError} If decryption fails, e.g. the token was
+ *   tampered with, encrypted with an unknown key or bound to another session
+ * @throws {TokenExpiredError} If token has expired based on current time
+ */
+export async function parseEncryptedToken<
+  TClaims extends TokenClaims = TokenClaims,
+>(
+  token: string,
+  secret: CsrfSecret,
+  sessionId?: string
+): Promise<TokenPayload<TClaims>> {
+  const split = splitKeyId(token.split('.'), 2, secret);
+  if (!split) {
+    throw new TokenInvalidError('Encrypted token must have 2 parts');
+  }
+
+  const { kid } = split;
+  const [ivPart, ciphertextPart] = split.rest;
+
+  if (!ivPart || !ciphertextPart) {
+    throw new TokenInvalidError('Token parts cannot be empty');
+  }
+
+  const iv = fromBase64Url(ivPart);
+  const ciphertext = fromBase64Url(ciphertextPart);
+  if (!iv || iv.length !== IV_LENGTH || !ciphertext) {
+    throw new TokenInvalidError('Token parts must be base64url encoded');
+  }
+
+  const keys = getVerificationKeys(secret, kid);
+
+  if (keys.length === 0) {
+    throw new BadSignatureError('Unknown key id');
+  }
+
+  const plaintext = await decryptPayload(
+    iv,
+    ciphertext,
+    bindSession(kid ?? '', sessionId),
+    keys.filter((key) => typeof key === 'string')
+  );
+  if (plaintext === null) {
+    throw new BadSignatureError('Decryption failed');
+  }
+
+  let payload: {
+    exp?: unknown;
+    iat?: unknown;
+    nonce?: unknown;
+    claims?: unknown;
+  };
+  try {
+    payload = JSON.parse(plaintext);
+  } catch {
+    throw new TokenInvalidError('Invalid token payload');
+  }
+  if (
+    !isRecord(payload) ||
+    typeof payload.exp !== 'number' ||
+    typeof payload.iat !== 'number' ||
+    typeof payload.nonce !== 'string' ||
+    !isRecord(payload.claims)
+  ) {
+    throw new TokenInvalidError('Invalid token payload');
+  }
+
+  const currentTime = Math.floor(Date.now() / 1000);
+  if (currentTime > payload.exp) {
+    throw new TokenExpiredError();
+  }
+
+  const parsed: TokenPayload<TClaims> = {
+    exp: payload.exp,
+    iat: payload.iat,
+    nonce: payload.nonce,
+    claims: payload.claims as TClaims,
+  };
+  return kid === undefined ? parsed : { ...parsed, kid };
+}
+
+async function signPayload(payload: string, key: KeyMaterial): Promise<string> {
   const keyCache = CryptoKeyCache.getInstance();
-  const key = await keyCache.getCachedKey(secret);
 
   const encoder = new TextEncoder();
   const messageData = encoder.encode(payload);
 
-  const signature = await crypto.subtle.sign('HMAC', key, messageData);
+  const signature =
+    typeof key === 'string'
+      ? await crypto.subtle.sign(
+          'HMAC',
+          await keyCache.getCachedKey(key),
+          messageData
+        )
+      : await crypto.subtle.sign(
+          SIGNING_ALGORITHMS[key.algorithm].signature,
+          await keyCache.getAsymmetricKey(key, 'sign'),
+          messageData
+        );
   const signatureArray = new Uint8Array(signature);
   return Array.from(signatureArray, (byte) =>
     byte.toString(16).padStart(2, '0')
   ).join('');
 }
 
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(value)) {
+    return null;
+  }
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Masks a token with a fresh one-time pad.
+ *
+ * Each call returns a different representation of the same token, so a
+ * token embedded in compressed responses cannot be recovered byte by byte
+ * through a compression oracle such as BREACH. The result is the
+ * base64url-encoded pad followed by the token XORed with the pad.
+ *
+ * @public
+ * @param token - Token to mask
+ * @returns The masked token
+ *
+ * @example
+ * ```typescript
+ * const masked = maskToken(token);
+ * maskToken(token) !== masked; // true
+ * unmaskToken(masked) === token; // true
+ * ```
+ */
+export function maskToken(token: string): string {
+  const tokenBytes = new TextEncoder().encode(token);
+  const pad = crypto.getRandomValues(new Uint8Array(tokenBytes.length));
+
+  const masked = new Uint8Array(tokenBytes.length * 2);
+  masked.set(pad);
+  for (const [index, byte] of tokenBytes.entries()) {
+    masked[tokenBytes.length + index] = byte ^ (pad[index] ?? 0);
+  }
+  return toBase64Url(masked);
+}
+
+/**
+ * Recovers a token masked with {@link maskToken}.
+ *
+ * @public
+ * @param maskedToken - Masked token
+ * @returns The original token, or `null` if the value is not a masked token
+ */
+export function unmaskToken(maskedToken: string): string | null {
+  const bytes = fromBase64Url(maskedToken);
+  if (!bytes || bytes.length === 0 || bytes.length % 2 !== 0) {
+    return null;
+  }
+
+  const length = bytes.length / 2;
+  const tokenBytes = new Uint8Array(length);
+  for (let index = 0; index < length; index++) {
+    tokenBytes[index] = (bytes[index] ?? 0) ^ (bytes[length + index] ?? 0);
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(tokenBytes);
+  } catch {
+    return null;
+  }
+}
+
 export function timingSafeEqual(a: string, b: string): boolean {
   // Work with the longer length to avoid early exit timing leaks
   const len = Math.max(a.length, b.length);
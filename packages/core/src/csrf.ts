@@ -1,30 +1,53 @@
+import { collectStrategyNames, validateConfig } from './config.js';
 import {
+  applyCookiePrefix,
+  enforceCookiePrefix,
+  findDuplicateCookies,
+  selectCookieValues,
+} from './cookies.js';
+import {
+  CSRF_REPORT_HEADER,
   CSRF_STRATEGY_HEADER,
   CSRF_TOKEN_HEADER,
   DEFAULT_CONFIG,
-  DEFAULT_NONCE_LENGTH,
-  ORIGIN_CHECK_NONCE_LENGTH,
+  DEFAULT_REISSUE_THRESHOLD,
+  DEFAULT_STRATEGY,
+  DEFAULT_TOKEN_EXPIRY,
   SAFE_METHODS,
   SERVER_CSRF_COOKIE_SUFFIX,
 } from './constants.js';
 import {
-  generateNonce,
+  generateScopedToken,
   generateSecureSecret,
-  generateSignedToken,
-  parseSignedToken,
-  signUnsignedToken,
-  timingSafeEqual,
-  verifySignedToken,
+  isVerifyOnly,
+  maskToken,
 } from './crypto.js';
+import { CsrfConfigError } from './errors.js';
+import { matchesPath } from './paths.js';
+import { redactRequest } from './redact.js';
+import { MemorySessionStore, MemoryTokenStore } from './stores.js';
+import {
+  formatStrategy,
+  resolveStrategy,
+  validateRequest,
+  validateScopedRequest,
+} from './strategies.js';
 import type {
   CsrfAdapter,
   CsrfConfig,
+  CsrfEvent,
+  CsrfFailureCode,
   CsrfRequest,
   CsrfResponse,
+  CsrfValidationHandle,
+  GeneratedToken,
   RequiredCookieOptions,
   RequiredCsrfConfig,
+  StrategyDefinition,
+  TokenData,
+  TokenScope,
+  ValidationResult,
 } from './types.js';
-import { validateRequest } from './validation.js';
 
 /**
  * Extracts the pathname from a URL string for path-based exclusion matching.
@@ -68,6 +91,9 @@ function processHeaders(
   if (rawHeaders instanceof Map) {
     return rawHeaders;
   }
+  if (rawHeaders instanceof Headers) {
+    return new Map(rawHeaders);
+  }
 
   return new Map(Object.entries(rawHeaders));
 }
@@ -104,38 +130,128 @@ function mergeConfig(
 
   // Ensure all required properties are present
   const config: RequiredCsrfConfig = {
-    strategy: userConfig?.strategy ?? defaultConfig.strategy ?? 'hybrid',
+    strategy:
+      userConfig?.strategy ?? defaultConfig.strategy ?? DEFAULT_STRATEGY,
+    mode: merged.mode ?? 'enforce',
     secret:
       userConfig?.secret ?? defaultConfig.secret ?? generateSecureSecret(),
     token: {
-      expiry: merged.token?.expiry ?? 3600,
+      expiry: merged.token?.expiry ?? DEFAULT_TOKEN_EXPIRY,
       headerName: merged.token?.headerName ?? 'X-CSRF-Token',
       fieldName: merged.token?.fieldName ?? 'csrf_token',
-      reissueThreshold: merged.token?.reissueThreshold ?? 300,
+      reissueThreshold:
+        merged.token?.reissueThreshold ?? DEFAULT_REISSUE_THRESHOLD,
+      mask: merged.token?.mask ?? false,
+      singleUse: merged.token?.singleUse ?? false,
     },
     cookie: {
-      name: merged.cookie?.name ?? 'csrf-token',
+      name: applyCookiePrefix(
+        merged.cookie?.name ?? 'csrf-token',
+        merged.cookie?.prefix
+      ),
       secure: merged.cookie?.secure ?? true,
       httpOnly: merged.cookie?.httpOnly ?? false,
       sameSite: merged.cookie?.sameSite ?? 'lax',
       path: merged.cookie?.path ?? '/',
     },
+    duplicateCookiePolicy: merged.duplicateCookiePolicy ?? 'reject',
     allowedOrigins: merged.allowedOrigins ?? [],
+    sameOrigin: merged.sameOrigin ?? true,
+    nullOriginPolicy: merged.nullOriginPolicy ?? 'reject',
+    strictReferer: merged.strictReferer ?? true,
+    trustedProxies: merged.trustedProxies ?? [],
+    fetchMetadata: {
+      allowSameSite:
+        userConfig?.fetchMetadata?.allowSameSite ??
+        defaultConfig.fetchMetadata?.allowSameSite ??
+        false,
+    },
     excludePaths: merged.excludePaths ?? [],
+    includePaths: merged.includePaths ?? [],
     skipContentTypes: merged.skipContentTypes ?? [],
+    scopedPaths: merged.scopedPaths ?? [],
   };
 
   // Add optional properties if they exist
+  if (merged.cookie?.prefix) {
+    config.cookie.prefix = merged.cookie.prefix;
+  }
   if (merged.cookie?.domain) {
     config.cookie.domain = merged.cookie.domain;
   }
   if (merged.cookie?.maxAge) {
     config.cookie.maxAge = merged.cookie.maxAge;
   }
+  if (merged.sessionIdentifier) {
+    config.sessionIdentifier = merged.sessionIdentifier;
+  }
+  if (merged.tokenClaims) {
+    config.tokenClaims = merged.tokenClaims;
+  }
+  if (merged.validateClaims) {
+    config.validateClaims = merged.validateClaims;
+  }
+  if (merged.tokenStore) {
+    config.tokenStore = merged.tokenStore;
+  } else if (config.token.singleUse) {
+    config.tokenStore = new MemoryTokenStore();
+  }
+  if (merged.sessionStore) {
+    config.sessionStore = merged.sessionStore;
+  } else if (collectStrategyNames(config.strategy).includes('synchronizer')) {
+    config.sessionStore = new MemorySessionStore();
+  }
+  if (merged.strategies) {
+    config.strategies = merged.strategies;
+  }
+  if (merged.skip) {
+    config.skip = merged.skip;
+  }
+  if (merged.requireProtection) {
+    config.requireProtection = merged.requireProtection;
+  }
+  if (merged.onTokenIssued) {
+    config.onTokenIssued = merged.onTokenIssued;
+  }
+  if (merged.onTokenReused) {
+    config.onTokenReused = merged.onTokenReused;
+  }
+  if (merged.onValidationSuccess) {
+    config.onValidationSuccess = merged.onValidationSuccess;
+  }
+  if (merged.onValidationFailure) {
+    config.onValidationFailure = merged.onValidationFailure;
+  }
+  if (merged.onSkipped) {
+    config.onSkipped = merged.onSkipped;
+  }
 
   return config;
 }
 
+/**
+ * Returns a copy of `config` whose token store only checks nonces, so
+ * `verify()` rejects used single-use tokens without consuming valid ones.
+ *
+ * @internal
+ */
+function withoutTokenConsumption(
+  config: RequiredCsrfConfig
+): RequiredCsrfConfig {
+  const tokenStore = config.tokenStore;
+  if (!tokenStore) {
+    return config;
+  }
+  return {
+    ...config,
+    tokenStore: {
+      markUsed: async (nonce) => !(await tokenStore.isUsed(nonce)),
+      isUsed: (nonce) => tokenStore.isUsed(nonce),
+      purgeExpired: () => tokenStore.purgeExpired(),
+    },
+  };
+}
+
 /**
  * Core CSRF protection engine that provides framework-agnostic CSRF security.
  *
@@ -158,9 +274,15 @@ function mergeConfig(
  * - `double-submit`: Classic double-submit cookie pattern
  * - `signed-double-submit`: Enhanced double-submit with cryptographic signatures
  * - `signed-token`: Server-side token validation with signing
+ * - `encrypted-token`: Encrypted tokens carrying custom claims
+ * - `synchronizer`: Tokens stored server-side against the user's session
  * - `origin-check`: Validates request origin against allowed domains
+ * - `fetch-metadata`: Validates browser Fetch Metadata (`Sec-Fetch-*`) headers
  * - `hybrid`: Combines multiple strategies for maximum security
  *
+ * Custom strategies implementing {@link StrategyDefinition} can be registered
+ * by name through `strategies` and selected with `strategy`.
+ *
  * @template TRequest - Framework-specific request type
  * @template TResponse - Framework-specific response type
  * @public
@@ -248,50 +370,71 @@ function mergeConfig(
  * ```
  */
 
-/**
- * Interface for token data used throughout the CSRF protection process.
- * @internal
- */
-interface TokenData {
-  clientToken: string;
-  cookieToken: string;
-  serverCookieToken?: string;
-  cookieOptions: RequiredCookieOptions;
-}
-
 export class CsrfProtection<TRequest = unknown, TResponse = unknown> {
   private readonly config: RequiredCsrfConfig;
   private readonly adapter: CsrfAdapter<TRequest, TResponse>;
+  /** Set when the signing key has no private key; see `SecretKeyRing` */
+  private readonly verifyOnly: boolean;
 
   /**
    * Creates a new CSRF protection instance.
    *
+   * Configuration warnings from {@link validateConfig} are passed to
+   * `onConfigWarning`.
+   *
    * @param adapter - Framework-specific adapter for request/response handling
    * @param userConfig - Optional configuration overrides
+   * @throws {CsrfConfigError} If the configuration is invalid, or has
+   *   warnings and `strict` is set
    */
   constructor(
     adapter: CsrfAdapter<TRequest, TResponse>,
     userConfig?: CsrfConfig
   ) {
+    for (const warning of validateConfig(userConfig ?? {})) {
+      userConfig?.onConfigWarning?.(warning);
+    }
     this.adapter = adapter;
     this.config = mergeConfig(DEFAULT_CONFIG, userConfig);
+    this.verifyOnly = isVerifyOnly(this.config.secret);
   }
 
   /**
    * Checks if a request should be excluded from CSRF protection.
    *
+   * `requireProtection` overrides every exclusion; otherwise the static
+   * exclusions are checked before the `skip` predicate.
+   *
    * @param request - The CSRF request to check
    * @returns true if the request should be skipped
    * @internal
    */
-  private shouldSkipProtection(request: CsrfRequest): boolean {
+  private async shouldSkipProtection(request: CsrfRequest): Promise<boolean> {
+    if (await this.config.requireProtection?.(request)) {
+      return false;
+    }
+    if (this.matchesStaticExclusions(request)) {
+      return true;
+    }
+    return (await this.config.skip?.(request)) ?? false;
+  }
+
+  /**
+   * Checks `excludePaths`, `includePaths` and `skipContentTypes`.
+   *
+   * @internal
+   */
+  private matchesStaticExclusions(request: CsrfRequest): boolean {
     const pathname = extractPathname(request.url);
+    if (matchesPath(pathname, request.method, this.config.excludePaths)) {
+      return true;
+    }
+
+    // Safe requests outside includePaths still receive tokens for later use
     if (
-      this.config.excludePaths.some(
-        (path) =>
-          pathname === path ||
-          pathname.startsWith(path.endsWith('/') ? path : `${path}/`)
-      )
+      this.config.includePaths.length > 0 &&
+      !SAFE_METHODS.includes(request.method as (typeof SAFE_METHODS)[number]) &&
+      !matchesPath(pathname, request.method, this.config.includePaths)
     ) {
       return true;
     }
@@ -306,6 +449,10 @@ export class CsrfProtection<TRequest = unknown, TResponse = unknown> {
   /**
    * Attempts to reuse existing CSRF tokens if they are still valid.
    *
+   * Delegates to the strategy's `reuse` hook. The built-in signed strategies
+   * transparently reissue tokens signed with a retired key from the
+   * configured key ring.
+   *
    * @param request - The CSRF request containing potential existing tokens
    * @returns Token data if reuse is possible, null otherwise
    * @internal
@@ -317,105 +464,130 @@ export class CsrfProtection<TRequest = unknown, TResponse = unknown> {
       return null;
     }
 
-    const cookies =
-      request.cookies instanceof Map
-        ? request.cookies
-        : new Map(Object.entries(request.cookies));
-
-    const clientTokenFromRequest = cookies.get(this.config.cookie.name);
-    const serverCookieTokenFromRequest = cookies.get(
-      this.config.cookie.name + SERVER_CSRF_COOKIE_SUFFIX
-    );
-
-    if (!clientTokenFromRequest) {
+    const strategy = resolveStrategy(this.config);
+    if (!strategy?.reuse) {
       return null;
     }
 
-    const currentTime = Math.floor(Date.now() / 1000);
-    const reissueThreshold = this.config.token.reissueThreshold;
-
+    let tokenData: TokenData | null;
     try {
-      switch (this.config.strategy) {
-        case 'signed-token':
-        case 'hybrid': {
-          const payload = await parseSignedToken(
-            clientTokenFromRequest,
-            this.config.secret
-          );
-          if (payload.exp > currentTime + reissueThreshold) {
-            return {
-              clientToken: clientTokenFromRequest,
-              cookieToken: clientTokenFromRequest,
-              cookieOptions: { ...this.config.cookie, httpOnly: false },
-            };
-          }
-          break;
-        }
-        case 'signed-double-submit': {
-          if (serverCookieTokenFromRequest && clientTokenFromRequest) {
-            try {
-              const verifiedToken = await verifySignedToken(
-                serverCookieTokenFromRequest,
-                this.config.secret
-              );
-              if (timingSafeEqual(verifiedToken, clientTokenFromRequest)) {
-                return {
-                  clientToken: clientTokenFromRequest,
-                  cookieToken: clientTokenFromRequest,
-                  serverCookieToken: serverCookieTokenFromRequest,
-                  cookieOptions: { ...this.config.cookie, httpOnly: false },
-                };
-              }
-            } catch {
-              // Invalid signature, fall through to generate new tokens
-            }
-          }
-          break;
-        }
-      }
-    } catch (error) {
+      tokenData = await strategy.reuse(request, this.config);
+    } catch {
       // Token invalid or expired, return null to generate new tokens
       return null;
     }
 
-    return null;
+    if (tokenData) {
+      await this.config.onTokenReused?.(this.createEvent(request));
+    }
+    return tokenData;
+  }
+
+  /**
+   * Applies `duplicateCookiePolicy` to CSRF cookies that were sent more than
+   * once with different values. Tokenless strategies ignore the cookie, so
+   * their requests are returned unchanged.
+   *
+   * @param request - The CSRF request to check
+   * @returns The request to process, with the selected cookie values, and
+   *   the duplicated cookie names if the policy rejects them
+   * @internal
+   */
+  private resolveDuplicateCookies(request: CsrfRequest): {
+    request: CsrfRequest;
+    duplicates: string[];
+  } {
+    const cookieName = this.config.cookie.name;
+    const names = [cookieName, cookieName + SERVER_CSRF_COOKIE_SUFFIX];
+    const duplicates = findDuplicateCookies(request, names);
+    if (duplicates.length === 0 || this.getStrategy().tokenless) {
+      return { request, duplicates: [] };
+    }
+
+    const policy = this.config.duplicateCookiePolicy;
+    if (policy === 'reject') {
+      return { request, duplicates };
+    }
+    return {
+      request: selectCookieValues(request, duplicates, policy),
+      duplicates: [],
+    };
+  }
+
+  /**
+   * Builds the context passed to lifecycle hooks.
+   *
+   * @internal
+   */
+  private createEvent(request: CsrfRequest): CsrfEvent {
+    return {
+      request: redactRequest(request, this.config),
+      strategy: formatStrategy(this.config.strategy),
+    };
   }
 
   /**
    * Builds the CSRF response with headers and cookies.
    *
-   * @param tokenData - The token data to include in the response
+   * @param tokenData - The token data to include in the response, or `null`
+   *   on verify-only instances
+   * @param reportedFailure - Failure code to report in `report-only` mode
    * @returns The CSRF response object
    * @internal
    */
-  private buildCsrfResponse(tokenData: TokenData): CsrfResponse {
-    const cookies = new Map([
-      [
-        this.config.cookie.name,
-        {
-          value: tokenData.cookieToken,
-          options: tokenData.cookieOptions,
-        },
-      ],
+  private buildCsrfResponse(
+    tokenData: TokenData | null,
+    reportedFailure?: CsrfFailureCode
+  ): CsrfResponse {
+    const headers = new Map([
+      [CSRF_STRATEGY_HEADER, formatStrategy(this.config.strategy)],
     ]);
+    if (reportedFailure) {
+      headers.set(CSRF_REPORT_HEADER, reportedFailure);
+    }
+    if (!tokenData) {
+      return { headers, cookies: new Map() };
+    }
+
+    headers.set(CSRF_TOKEN_HEADER, tokenData.clientToken);
+    return { headers, cookies: this.buildCookies(tokenData) };
+  }
+
+  /**
+   * Builds the CSRF cookies for issued token data.
+   *
+   * @internal
+   */
+  private buildCookies(
+    tokenData: TokenData
+  ): Map<string, { value: string; options: RequiredCookieOptions }> {
+    const cookieName = this.config.cookie.name;
+    const cookieOptions = enforceCookiePrefix(
+      cookieName,
+      tokenData.cookieOptions
+    );
+    const cookies = new Map<
+      string,
+      { value: string; options: RequiredCookieOptions }
+    >();
+    if (tokenData.cookieToken !== undefined) {
+      cookies.set(cookieName, {
+        value: tokenData.cookieToken,
+        options: cookieOptions,
+      });
+    }
 
     if (tokenData.serverCookieToken) {
-      cookies.set(`${this.config.cookie.name}-server`, {
+      cookies.set(cookieName + SERVER_CSRF_COOKIE_SUFFIX, {
         value: tokenData.serverCookieToken,
         options: {
-          ...tokenData.cookieOptions,
+          ...cookieOptions,
           httpOnly: true,
         },
       });
     }
 
-    return {
-      headers: new Map([
-        [CSRF_TOKEN_HEADER, tokenData.clientToken],
-        [CSRF_STRATEGY_HEADER, this.config.strategy],
-      ]),
-      cookies,
-    };
+    return cookies;
   }
 
   /**
@@ -432,6 +604,12 @@ export class CsrfProtection<TRequest = unknown, TResponse = unknown> {
    * 4. For unsafe methods: validates existing tokens using the configured strategy
    * 5. Applies response data (headers, cookies) using the adapter
    *
+   * In `report-only` mode, failed validation still succeeds: the result
+   * carries the failure `code` and `reason`, and the response gets an
+   * `x-csrf-report` header with the code.
+   *
+   * Use `validate()` instead when the response is created after validation.
+   *
    * @param request - Framework-specific request object
    * @param response - Framework-specific response object
    * @returns Promise resolving to protection result with success status and modified response
@@ -458,15 +636,16 @@ export class CsrfProtection<TRequest = unknown, TResponse = unknown> {
    *
    * @example
    * ```typescript
-   * // Error handling with specific reasons
+   * // Error handling with specific failure codes
    * const result = await csrf.protect(req, res);
    * if (!result.success) {
-   *   switch (result.reason) {
-   *     case 'Invalid token':
+   *   switch (result.code) {
+   *     case 'MISSING_TOKEN':
+   *     case 'TOKEN_INVALID':
    *       return res.status(403).json({ error: 'CSRF token is invalid' });
-   *     case 'Token expired':
+   *     case 'TOKEN_EXPIRED':
    *       return res.status(403).json({ error: 'CSRF token has expired' });
-   *     case 'Origin mismatch':
+   *     case 'ORIGIN_MISMATCH':
    *       return res.status(403).json({ error: 'Request origin not allowed' });
    *     default:
    *       return res.status(403).json({ error: 'CSRF validation failed' });
@@ -482,23 +661,51 @@ export class CsrfProtection<TRequest = unknown, TResponse = unknown> {
     response: TResponse;
     token?: string;
     reason?: string;
+    code?: CsrfFailureCode;
   }> {
-    const csrfRequest = this.adapter.extractRequest(request);
+    const { attach, ...result } = await this.validate(request);
+    return { ...result, response: attach(response) };
+  }
+
+  /**
+   * Protects a request whose response is created later, e.g. by a route
+   * handler.
+   *
+   * Runs the same checks as `protect()` and resolves to the same result
+   * without a response. Call `attach()` on the handle with the final
+   * response to apply the CSRF headers and cookies.
+   *
+   * @param request - Framework-specific request object
+   * @returns Promise resolving to the protection result and its `attach()`
+   *
+   * @example
+   * ```typescript
+   * const csrfResult = await csrf.validate(request);
+   * if (!csrfResult.success) {
+   *   return Response.json({ code: csrfResult.code }, { status: 403 });
+   * }
+   *
+   * const response = await handle(request);
+   * return csrfResult.attach(response);
+   * ```
+   */
+  async validate(request: TRequest): Promise<CsrfValidationHandle<TResponse>> {
+    const extractedRequest = this.adapter.extractRequest(request);
 
     // Check if request should be skipped
-    if (this.shouldSkipProtection(csrfRequest)) {
-      return { success: true, response };
+    if (await this.shouldSkipProtection(extractedRequest)) {
+      await this.config.onSkipped?.(this.createEvent(extractedRequest));
+      return { success: true, attach: (response) => response };
     }
 
-    // Attempt to reuse existing tokens or generate new ones
-    let tokenData = await this.attemptTokenReuse(csrfRequest);
-    tokenData ??= await this.generateTokensForStrategy();
-
-    // Build CSRF response
-    const csrfResponse = this.buildCsrfResponse(tokenData);
+    const { request: csrfRequest, duplicates } =
+      this.resolveDuplicateCookies(extractedRequest);
 
-    // Apply response modifications
-    const modifiedResponse = this.adapter.applyResponse(response, csrfResponse);
+    // Verify-only instances leave token issuance to the services holding
+    // the private key
+    const tokenData = this.verifyOnly
+      ? null
+      : await this.issueTokens(csrfRequest, duplicates);
 
     // Skip validation for safe methods
     if (
@@ -506,101 +713,301 @@ export class CsrfProtection<TRequest = unknown, TResponse = unknown> {
     ) {
       return {
         success: true,
-        response: modifiedResponse,
-        token: tokenData.clientToken,
+        ...(tokenData && { token: tokenData.clientToken }),
+        attach: this.createAttach(this.buildCsrfResponse(tokenData)),
       };
     }
 
-    // Validate based on strategy
-    const validationResult = await validateRequest(
+    // Validate based on strategy, or the scoped token on scopedPaths
+    const validationResult = await this.validateUnsafeRequest(
       csrfRequest,
-      this.config,
-      this.adapter.getTokenFromRequest
+      duplicates
     );
 
+    await this.reportValidation(csrfRequest, validationResult);
+
     if (!validationResult.isValid) {
-      return {
-        success: false,
-        response: modifiedResponse,
-        reason: validationResult.reason ?? 'CSRF Validation failed',
-      };
+      const reason = validationResult.reason ?? 'CSRF Validation failed';
+      const code = validationResult.code ?? 'VALIDATION_FAILED';
+      const reportOnly = this.config.mode === 'report-only';
+      const attach = this.createAttach(
+        this.buildCsrfResponse(tokenData, reportOnly ? code : undefined)
+      );
+      if (reportOnly) {
+        return {
+          success: true,
+          ...(tokenData && { token: tokenData.clientToken }),
+          reason,
+          code,
+          attach,
+        };
+      }
+      return { success: false, reason, code, attach };
     }
 
     return {
       success: true,
-      response: modifiedResponse,
+      ...(tokenData && { token: tokenData.clientToken }),
+      attach: this.createAttach(this.buildCsrfResponse(tokenData)),
+    };
+  }
+
+  /**
+   * Creates the `attach()` of a validation handle, which applies the
+   * headers and cookies through the adapter.
+   *
+   * @internal
+   */
+  private createAttach(
+    csrfResponse: CsrfResponse
+  ): (response: TResponse) => TResponse {
+    return (response) => this.adapter.applyResponse(response, csrfResponse);
+  }
+
+  /**
+   * Issues a token without touching a response, e.g. for server-rendered
+   * templates or frameworks that write cookies elsewhere.
+   *
+   * Like `protect()`, a valid token from the request's cookies is reused on
+   * safe requests. Without a request, a new token is issued for an empty
+   * GET request. The returned cookies must be set on the response for the
+   * token to validate.
+   *
+   * @param request - Request to issue the token for (optional)
+   * @returns The client token and the CSRF cookies to set
+   * @throws {CsrfConfigError} If the instance is verify-only (see
+   *   `SecretKeyRing`)
+   *
+   * @example
+   * ```typescript
+   * const { token, cookies } = await csrf.generateToken(req);
+   * for (const [name, { value, options }] of cookies) {
+   *   res.cookie(name, value, options);
+   * }
+   * res.render('form', { csrfToken: token });
+   * ```
+   */
+  async generateToken(request?: TRequest): Promise<GeneratedToken> {
+    if (this.verifyOnly) {
+      throw new CsrfConfigError([
+        {
+          severity: 'error',
+          path: 'secret',
+          message:
+            'The signing key has no private key, so this instance can only verify tokens.',
+        },
+      ]);
+    }
+
+    const extractedRequest: CsrfRequest =
+      request === undefined
+        ? { method: 'GET', url: '/', headers: new Map(), cookies: new Map() }
+        : this.adapter.extractRequest(request);
+    const { request: csrfRequest, duplicates } =
+      this.resolveDuplicateCookies(extractedRequest);
+
+    const tokenData = await this.issueTokens(csrfRequest, duplicates);
+    return {
       token: tokenData.clientToken,
+      cookies: this.buildCookies(tokenData),
     };
   }
 
-  private async generateTokensForStrategy(): Promise<TokenData> {
-    const baseOptions = this.config.cookie;
+  /**
+   * Validates a request without issuing tokens or touching a response, e.g.
+   * to re-check a stored request before replaying it in a background job.
+   *
+   * The request is validated whatever its method, and `excludePaths`,
+   * `skip` and the other exclusions do not apply. `mode` is ignored too:
+   * the result always reflects the actual outcome. `onValidationSuccess`
+   * and `onValidationFailure` are called as in `protect()`.
+   *
+   * With `token.singleUse`, a used token is rejected but a valid one is not
+   * consumed, so it is still accepted once by `protect()`.
+   *
+   * @param request - Request to validate
+   * @returns The validation result
+   *
+   * @example
+   * ```typescript
+   * const result = await csrf.verify(req);
+   * if (!result.isValid) {
+   *   console.error(`Validation failed [${result.code}]:`, result.reason);
+   * }
+   * ```
+   */
+  async verify(request: TRequest): Promise<ValidationResult> {
+    const { request: csrfRequest, duplicates } = this.resolveDuplicateCookies(
+      this.adapter.extractRequest(request)
+    );
 
-    switch (this.config.strategy) {
-      case 'double-submit': {
-        const token = generateNonce(DEFAULT_NONCE_LENGTH);
-        if (!token) {
-          throw new Error(
-            'CSRF Error: Failed to generate nonce for strategy "double-submit".'
-          );
-        }
-        return {
-          clientToken: token,
-          cookieToken: token,
-          cookieOptions: { ...baseOptions, httpOnly: false },
-        };
-      }
+    const result = await this.validateUnsafeRequest(
+      csrfRequest,
+      duplicates,
+      withoutTokenConsumption(this.config)
+    );
+    await this.reportValidation(csrfRequest, result);
+    return result;
+  }
 
-      case 'signed-double-submit': {
-        const unsignedToken = generateNonce(DEFAULT_NONCE_LENGTH);
-        if (!unsignedToken) {
-          throw new Error(
-            'CSRF Error: Failed to generate nonce for strategy "signed-double-submit".'
-          );
-        }
-        const signedToken = await signUnsignedToken(
-          unsignedToken,
-          this.config.secret
-        );
-        return {
-          clientToken: unsignedToken,
-          cookieToken: unsignedToken,
-          serverCookieToken: signedToken,
-          cookieOptions: { ...baseOptions, httpOnly: false },
-        };
-      }
+  /**
+   * Reuses a valid token from the request's cookies or issues a new one,
+   * masked when `token.mask` is set. A duplicated cookie may have been
+   * planted, so it is never reused.
+   *
+   * @internal
+   */
+  private async issueTokens(
+    request: CsrfRequest,
+    duplicates: readonly string[]
+  ): Promise<TokenData> {
+    const tokenData =
+      (duplicates.length === 0
+        ? await this.attemptTokenReuse(request)
+        : null) ?? (await this.generateTokensForStrategy(request));
+    if (!this.config.token.mask) {
+      return tokenData;
+    }
+    return { ...tokenData, clientToken: maskToken(tokenData.clientToken) };
+  }
 
-      case 'signed-token':
-      case 'hybrid': {
-        const signedToken = await generateSignedToken(
-          this.config.secret,
-          this.config.token.expiry
-        );
-        return {
-          clientToken: signedToken,
-          cookieToken: signedToken,
-          cookieOptions: { ...baseOptions, httpOnly: false },
-        };
-      }
+  /**
+   * Calls `onValidationSuccess` or `onValidationFailure` for a validation
+   * result.
+   *
+   * @internal
+   */
+  private async reportValidation(
+    request: CsrfRequest,
+    result: ValidationResult
+  ): Promise<void> {
+    if (result.isValid) {
+      await this.config.onValidationSuccess?.(this.createEvent(request));
+      return;
+    }
 
-      case 'origin-check': {
-        const nonce = generateNonce(ORIGIN_CHECK_NONCE_LENGTH);
-        if (!nonce) {
-          throw new Error(
-            'CSRF Error: Failed to generate nonce for strategy "origin-check".'
-          );
-        }
-        return {
-          clientToken: nonce,
-          cookieToken: nonce,
-          cookieOptions: { ...baseOptions, httpOnly: false },
-        };
-      }
+    await this.config.onValidationFailure?.({
+      ...this.createEvent(request),
+      mode: this.config.mode,
+      code: result.code ?? 'VALIDATION_FAILED',
+      reason: result.reason ?? 'CSRF Validation failed',
+      ...(result.failures && { failures: result.failures }),
+    });
+  }
 
-      default: {
-        throw new Error(`Unknown CSRF strategy: ${this.config.strategy}`);
-      }
+  /**
+   * Validates a state-changing request. Duplicated CSRF cookies are
+   * rejected, requests to `scopedPaths` need a scoped token in place of the
+   * strategy's token and all others are validated by the configured
+   * strategy.
+   *
+   * @internal
+   */
+  private async validateUnsafeRequest(
+    request: CsrfRequest,
+    duplicates: readonly string[],
+    config: RequiredCsrfConfig = this.config
+  ): Promise<ValidationResult> {
+    if (duplicates.length > 0) {
+      return {
+        isValid: false,
+        code: 'DUPLICATE_COOKIE',
+        reason: `Multiple values for CSRF cookie: ${duplicates.join(', ')}`,
+      };
+    }
+
+    const pathname = extractPathname(request.url);
+    if (matchesPath(pathname, request.method, config.scopedPaths)) {
+      return await validateScopedRequest(
+        request,
+        config,
+        this.adapter.getTokenFromRequest
+      );
+    }
+    return await validateRequest(
+      request,
+      config,
+      this.adapter.getTokenFromRequest
+    );
+  }
+
+  /**
+   * Generates a token that is only accepted for one action: the given
+   * method and exact pathname, for the session of `request`.
+   *
+   * Requests to `scopedPaths` must submit such a token, in the usual header
+   * or form field, instead of the regular token. Use a short `expiry` for
+   * destructive actions; the token is masked when `token.mask` is set and
+   * is one-time-use when `token.singleUse` is set.
+   *
+   * @param scope - Method, exact pathname and optional lifetime in seconds
+   * @param request - Request of the session the token is issued to
+   * @returns The scoped token
+   * @throws {CsrfConfigError} If no `sessionIdentifier` is configured
+   *
+   * @example
+   * ```typescript
+   * const csrf = createCsrfProtection(adapter, {
+   *   sessionIdentifier: (req) => getSessionId(req),
+   *   scopedPaths: [{ path: '/account/delete', methods: ['POST'] }],
+   * });
+   *
+   * const deleteToken = await csrf.generateScopedToken(
+   *   { method: 'POST', path: '/account/delete', expiry: 300 },
+   *   req
+   * );
+   * ```
+   */
+  async generateScopedToken(
+    scope: TokenScope,
+    request: TRequest
+  ): Promise<string> {
+    if (!this.config.sessionIdentifier) {
+      throw new CsrfConfigError([
+        {
+          severity: 'error',
+          path: 'sessionIdentifier',
+          message:
+            'Scoped tokens require a sessionIdentifier, so they cannot be used from another session.',
+        },
+      ]);
+    }
+
+    const sessionId = await this.config.sessionIdentifier(
+      this.adapter.extractRequest(request)
+    );
+    const token = await generateScopedToken(
+      this.config.secret,
+      scope.expiry ?? this.config.token.expiry,
+      scope,
+      sessionId
+    );
+    return this.config.token.mask ? maskToken(token) : token;
+  }
+
+  private async generateTokensForStrategy(
+    request: CsrfRequest
+  ): Promise<TokenData> {
+    const tokenData = await this.getStrategy().issue(request, this.config);
+    await this.config.onTokenIssued?.(this.createEvent(request));
+    return tokenData;
+  }
+
+  /**
+   * Resolves the configured strategy definition.
+   *
+   * @returns The built-in or registered strategy definition
+   * @throws {Error} If no strategy is registered under the configured name
+   * @internal
+   */
+  private getStrategy(): StrategyDefinition {
+    const strategy = resolveStrategy(this.config);
+    if (!strategy) {
+      throw new Error(
+        `Unknown CSRF strategy: ${formatStrategy(this.config.strategy)}`
+      );
     }
+    return strategy;
   }
 }
 
@@ -1,3 +1,5 @@
+import type { ConfigIssue, CsrfFailureCode } from './types.js';
+
 /**
  * Base error class for all CSRF-related errors.
  *
@@ -85,7 +87,7 @@ export class TokenExpiredError extends CsrfError {
  *   if (error instanceof TokenInvalidError) {
  *     console.log('Invalid token received:', error.message);
  *     // Generate and provide a new valid token
- *     const newToken = await csrfProtection.generateToken();
+ *     const { token: newToken } = await csrfProtection.generateToken(req);
  *     res.status(400).json({ error: error.message, newToken });
  *   }
  * }
@@ -96,9 +98,33 @@ export class TokenInvalidError extends CsrfError {
    * Creates a new token invalid error.
    *
    * @param reason - Specific reason why the token is invalid
+   * @param code - Error code, overridden by {@link BadSignatureError}
    */
-  constructor(reason = 'Invalid token format') {
-    super(`CSRF token is invalid: ${reason}`, 'TOKEN_INVALID');
+  constructor(
+    reason = 'Invalid token format',
+    code: 'TOKEN_INVALID' | 'BAD_SIGNATURE' = 'TOKEN_INVALID'
+  ) {
+    super(`CSRF token is invalid: ${reason}`, code);
+  }
+}
+
+/**
+ * Error thrown when a token's signature cannot be verified.
+ *
+ * Covers tampered tokens, tokens signed by an unknown or retired key, and
+ * tokens bound to a different session. Extends {@link TokenInvalidError},
+ * so existing `instanceof TokenInvalidError` checks still match.
+ *
+ * @public
+ */
+export class BadSignatureError extends TokenInvalidError {
+  /**
+   * Creates a new bad signature error.
+   *
+   * @param reason - Specific reason why verification failed
+   */
+  constructor(reason = 'Invalid signature') {
+    super(reason, 'BAD_SIGNATURE');
   }
 }
 
@@ -137,3 +163,246 @@ export class OriginMismatchError extends CsrfError {
     super(`Origin "${origin}" is not allowed`, 'ORIGIN_MISMATCH');
   }
 }
+
+/**
+ * Error thrown when the CSRF configuration is invalid.
+ *
+ * Lists every problem found, so a misconfigured deployment can be fixed in
+ * one pass. Thrown by `validateConfig` and the `CsrfProtection` constructor.
+ *
+ * @public
+ * @example
+ * ```typescript
+ * import { CsrfConfigError, validateConfig } from '@csrf-armor/core';
+ *
+ * try {
+ *   validateConfig({ ...config, strict: true });
+ * } catch (error) {
+ *   if (error instanceof CsrfConfigError) {
+ *     for (const issue of error.issues) {
+ *       console.error(`${issue.path}: ${issue.message}`);
+ *     }
+ *     process.exit(1);
+ *   }
+ * }
+ * ```
+ */
+export class CsrfConfigError extends CsrfError {
+  /**
+   * Creates a new configuration error.
+   *
+   * @param issues - Problems that make the configuration invalid
+   */
+  constructor(public readonly issues: readonly ConfigIssue[]) {
+    super(
+      `Invalid CSRF configuration:\n${issues
+        .map((issue) => `  - ${issue.path}: ${issue.message}`)
+        .join('\n')}`,
+      'CONFIGURATION_ERROR',
+      500
+    );
+    this.name = 'CsrfConfigError';
+  }
+}
+
+/**
+ * Error for requests that did not submit a CSRF token.
+ *
+ * @public
+ */
+export class MissingTokenError extends CsrfError {
+  constructor(message = 'No CSRF token submitted') {
+    super(message, 'MISSING_TOKEN');
+  }
+}
+
+/**
+ * Error for requests without the CSRF cookie, or missing one of the cookie
+ * pair used by `signed-double-submit`.
+ *
+ * @public
+ */
+export class MissingCookieError extends CsrfError {
+  constructor(message = 'No CSRF cookie found') {
+    super(message, 'MISSING_COOKIE');
+  }
+}
+
+/**
+ * Error for requests whose submitted token does not match the CSRF cookie.
+ *
+ * @public
+ */
+export class TokenMismatchError extends CsrfError {
+  constructor(message = 'Token mismatch') {
+    super(message, 'TOKEN_MISMATCH');
+  }
+}
+
+/**
+ * Error for requests whose client cookie does not match the signed server
+ * cookie, a sign that the client cookie was overwritten.
+ *
+ * @public
+ */
+export class CookieIntegrityError extends CsrfError {
+  constructor(message = 'Cookie integrity check failed') {
+    super(message, 'COOKIE_INTEGRITY');
+  }
+}
+
+/**
+ * Error for state-changing requests sent without `Origin` and `Referer`.
+ *
+ * @public
+ */
+export class MissingOriginError extends CsrfError {
+  constructor(message = 'Missing origin and referer headers') {
+    super(message, 'MISSING_ORIGIN');
+  }
+}
+
+/**
+ * Error for requests sent with `Origin: null` under the `reject` null
+ * origin policy.
+ *
+ * @public
+ */
+export class NullOriginError extends CsrfError {
+  constructor(message = 'Null origin not allowed') {
+    super(message, 'NULL_ORIGIN');
+  }
+}
+
+/**
+ * Error for requests whose `Referer` is malformed, or insecure while the
+ * request itself was made over HTTPS.
+ *
+ * @public
+ */
+export class InvalidRefererError extends CsrfError {
+  constructor(message = 'Malformed Referer header') {
+    super(message, 'INVALID_REFERER');
+  }
+}
+
+/**
+ * Error for requests rejected by the `fetch-metadata` strategy.
+ *
+ * @public
+ */
+export class CrossSiteRequestError extends CsrfError {
+  constructor(message = 'Cross-site request blocked') {
+    super(message, 'CROSS_SITE_REQUEST');
+  }
+}
+
+/**
+ * Error for requests that sent a CSRF cookie more than once with different
+ * values, a sign of cookie tossing from another subdomain.
+ *
+ * @public
+ */
+export class DuplicateCookieError extends CsrfError {
+  constructor(message = 'Multiple CSRF cookies found') {
+    super(message, 'DUPLICATE_COOKIE');
+  }
+}
+
+/**
+ * Error for requests that submitted a one-time-use token a second time.
+ *
+ * @public
+ */
+export class TokenReusedError extends CsrfError {
+  constructor(message = 'Token has already been used') {
+    super(message, 'TOKEN_REUSED');
+  }
+}
+
+/**
+ * Error for requests that submitted a scoped token issued for another
+ * method or path.
+ *
+ * @public
+ */
+export class ScopeMismatchError extends CsrfError {
+  constructor(message = 'Token scope does not match the request') {
+    super(message, 'SCOPE_MISMATCH');
+  }
+}
+
+/**
+ * Error for requests whose encrypted token claims were rejected by
+ * `validateClaims`.
+ *
+ * @public
+ */
+export class InvalidClaimsError extends CsrfError {
+  constructor(message = 'Token claims rejected') {
+    super(message, 'INVALID_CLAIMS');
+  }
+}
+
+/**
+ * Creates the error matching a failure code, e.g. to rethrow a failed
+ * `protect()` result from framework middleware.
+ *
+ * The failure reason becomes the error message, so it reads the same as
+ * `result.reason`. `VALIDATION_FAILED` maps to a plain {@link CsrfError}.
+ *
+ * @public
+ * @param code - Failure code from a validation or protect result
+ * @param message - Failure reason to use as the error message
+ * @returns An instance of the error class for the code
+ *
+ * @example
+ * ```typescript
+ * const result = await csrfProtection.protect(req, res);
+ * if (!result.success) {
+ *   throw createCsrfError(result.code ?? 'VALIDATION_FAILED', result.reason ?? 'CSRF validation failed');
+ * }
+ * ```
+ */
+export function createCsrfError(
+  code: CsrfFailureCode,
+  message: string
+): CsrfError {
+  switch (code) {
+    case 'MISSING_TOKEN':
+      return new MissingTokenError(message);
+    case 'MISSING_COOKIE':
+      return new MissingCookieError(message);
+    case 'TOKEN_MISMATCH':
+      return new TokenMismatchError(message);
+    case 'COOKIE_INTEGRITY':
+      return new CookieIntegrityError(message);
+    case 'MISSING_ORIGIN':
+      return new MissingOriginError(message);
+    case 'NULL_ORIGIN':
+      return new NullOriginError(message);
+    case 'INVALID_REFERER':
+      return new InvalidRefererError(message);
+    case 'CROSS_SITE_REQUEST':
+      return new CrossSiteRequestError(message);
+    case 'DUPLICATE_COOKIE':
+      return new DuplicateCookieError(message);
+    case 'TOKEN_REUSED':
+      return new TokenReusedError(message);
+    case 'SCOPE_MISMATCH':
+      return new ScopeMismatchError(message);
+    case 'INVALID_CLAIMS':
+      return new InvalidClaimsError(message);
+    // These constructors format their own messages; keep the reason instead
+    case 'TOKEN_EXPIRED':
+      return Object.assign(new TokenExpiredError(), { message });
+    case 'TOKEN_INVALID':
+      return Object.assign(new TokenInvalidError(), { message });
+    case 'BAD_SIGNATURE':
+      return Object.assign(new BadSignatureError(), { message });
+    case 'ORIGIN_MISMATCH':
+      return Object.assign(new OriginMismatchError(''), { message });
+    default:
+      return new CsrfError(message, code);
+  }
+}
@@ -1,7 +1,47 @@
 // Core CSRF protection functionality
 export * from './types.js';
 export * from './errors.js';
-export * from './crypto.js';
-export * from './validation.js';
+export { validateConfig } from './config.js';
+export {
+  applyCookiePrefix,
+  getCookiePrefix,
+  parseCookieHeader,
+} from './cookies.js';
+export {
+  generateEncryptedToken,
+  generateNonce,
+  generateScopedToken,
+  generateSecureSecret,
+  generateSignedToken,
+  generateSigningKeyPair,
+  maskToken,
+  parseEncryptedToken,
+  parseScopedToken,
+  parseSignedToken,
+  signUnsignedToken,
+  timingSafeEqual,
+  unmaskToken,
+  verifySignedToken,
+} from './crypto.js';
+export * from './origin.js';
+export * from './paths.js';
+export * from './redact.js';
+export * from './stores.js';
+export {
+  validateDoubleSubmit,
+  validateEncryptedToken,
+  validateFetchMetadata,
+  validateOrigin,
+  validateScopedToken,
+  validateSignedDoubleSubmit,
+  validateSignedToken,
+  validateSynchronizerToken,
+} from './validation.js';
+export {
+  BUILT_IN_STRATEGIES,
+  formatStrategy,
+  resolveStrategy,
+  validateRequest,
+} from './strategies.js';
 export * from './csrf.js';
 export { SAFE_METHODS, DEFAULT_CONFIG } from './constants.js';
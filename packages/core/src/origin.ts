@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Origin matching for the origin-check strategies.
+ *
+ * Patterns are compared against the parsed origin rather than its string
+ * form, so a wildcard such as `https://*.example.com` can never match
+ * `https://evil-example.com` or `https://example.com.evil.com`.
+ *
+ * Also derives the origin a request was sent to, for same-origin checks
+ * behind trusted reverse proxies.
+ */
+
+import { matchesWhole } from './regexp.js';
+import { getHeaders } from './request.js';
+import type { CsrfRequest, OriginMatcher } from './types.js';
+
+interface OriginPattern {
+  /** URL protocol including the trailing colon, e.g. `https:` */
+  readonly protocol: string;
+  /** Exact hostname, or the `.`-prefixed parent domain for wildcards */
+  readonly hostname: string;
+  readonly wildcardHost: boolean;
+  /** Port as reported by `URL.port`, or `null` to allow any port */
+  readonly port: string | null;
+}
+
+const ORIGIN_PATTERN =
+  /^([a-z][a-z\d+.-]*:)\/\/(\*\.)?(\[[\da-f:.]+\]|[^/:?#@[\]*\s]+)(?::(\d+|\*))?$/i;
+
+/**
+ * Parses a string matcher, normalizing its host and port the same way
+ * request origins are normalized.
+ *
+ * @internal
+ */
+function parseOriginPattern(pattern: string): OriginPattern | null {
+  const match = ORIGIN_PATTERN.exec(pattern);
+  if (!match) {
+    return null;
+  }
+
+  const [, scheme = '', wildcard, host = '', port] = match;
+  const explicitPort = port && port !== '*' ? `:${port}` : '';
+  try {
+    // A placeholder label lets URL normalize the parent domain of wildcards
+    const url = new URL(
+      `${scheme}//${wildcard ? 'x.' : ''}${host}${explicitPort}`
+    );
+    return {
+      protocol: url.protocol,
+      hostname: wildcard ? url.hostname.slice(1) : url.hostname,
+      wildcardHost: wildcard !== undefined,
+      port: port === '*' ? null : url.port,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function matchesPattern(origin: URL, pattern: OriginPattern): boolean {
+  if (origin.protocol !== pattern.protocol) {
+    return false;
+  }
+  if (pattern.port !== null && origin.port !== pattern.port) {
+    return false;
+  }
+  if (!pattern.wildcardHost) {
+    return origin.hostname === pattern.hostname;
+  }
+  if (!origin.hostname.endsWith(pattern.hostname)) {
+    return false;
+  }
+
+  // `*` stands for exactly one subdomain label
+  const label = origin.hostname.slice(0, -pattern.hostname.length);
+  return label.length > 0 && !label.includes('.');
+}
+
+/**
+ * Checks a request origin against a list of origin matchers.
+ *
+ * String matchers must include the scheme and match it exactly. A leading
+ * `*.` matches exactly one subdomain label (never the parent domain itself)
+ * and a `*` port matches any port. Invalid string patterns match nothing.
+ * `RegExp` and function matchers receive the normalized origin, e.g.
+ * `https://app.example.com` with default ports omitted, and a `RegExp` must
+ * match the whole origin, so `/app\.example\.com/` does not allow
+ * `https://app.example.com.evil.net`.
+ *
+ * @public
+ * @param origin - Origin of the request, e.g. from the `Origin` header
+ * @param matchers - Allowed origins and origin patterns
+ * @returns True if any matcher allows the origin
+ *
+ * @example
+ * ```typescript
+ * isOriginAllowed('https://pr-123.preview.example.com', [
+ *   'https://*.preview.example.com',
+ * ]); // true
+ * isOriginAllowed('https://evil-example.com', ['https://*.example.com']); // false
+ * ```
+ */
+export function isOriginAllowed(
+  origin: string,
+  matchers: readonly OriginMatcher[]
+): boolean {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  const normalizedOrigin = url.origin;
+
+  return matchers.some((matcher) => {
+    if (typeof matcher === 'function') {
+      return matcher(normalizedOrigin);
+    }
+    if (matcher instanceof RegExp) {
+      return matchesWhole(normalizedOrigin, matcher);
+    }
+
+    const pattern = parseOriginPattern(matcher);
+    return pattern !== null && matchesPattern(url, pattern);
+  });
+}
+
+/** Returns the first entry of a comma-separated forwarded header. */
+function firstForwardedValue(value: string | undefined): string | undefined {
+  return value?.split(',')[0]?.trim() || undefined;
+}
+
+function normalizeAddress(address: string): string {
+  const lower = address.toLowerCase();
+  // IPv4-mapped IPv6 addresses, as reported by dual-stack Node.js servers
+  return lower.startsWith('::ffff:') && lower.includes('.')
+    ? lower.slice('::ffff:'.length)
+    : lower;
+}
+
+/**
+ * Checks whether the connected peer is one of the trusted proxies.
+ *
+ * @internal
+ */
+function isTrustedProxy(
+  remoteAddress: string | undefined,
+  trustedProxies: readonly string[]
+): boolean {
+  if (trustedProxies.includes('*')) {
+    return true;
+  }
+  if (!remoteAddress) {
+    return false;
+  }
+
+  const address = normalizeAddress(remoteAddress);
+  return trustedProxies.some((proxy) => normalizeAddress(proxy) === address);
+}
+
+function parseAbsoluteUrl(url: string): URL | undefined {
+  try {
+    return new URL(url);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Derives the origin a request was sent to.
+ *
+ * The host comes from `Host` or the HTTP/2 `:authority` pseudo-header, and
+ * the protocol from `request.protocol` or an absolute `request.url`.
+ * `X-Forwarded-Host` and `X-Forwarded-Proto` take precedence only when the
+ * connected peer (`request.remoteAddress`) is a trusted proxy.
+ *
+ * @public
+ * @param request - Normalized CSRF request
+ * @param trustedProxies - Addresses of trusted proxies, or `'*'` for any peer
+ * @returns The normalized origin, or `null` if it cannot be determined
+ *
+ * @example
+ * ```typescript
+ * getRequestOrigin(
+ *   {
+ *     method: 'POST',
+ *     url: '/api/data',
+ *     headers: { host: 'internal:3000', 'x-forwarded-host': 'app.example.com', 'x-forwarded-proto': 'https' },
+ *     cookies: {},
+ *     remoteAddress: '10.0.0.1',
+ *   },
+ *   ['10.0.0.1']
+ * ); // 'https://app.example.com'
+ * ```
+ */
+export function getRequestOrigin(
+  request: CsrfRequest,
+  trustedProxies: readonly string[]
+): string | null {
+  const headers = getHeaders(request);
+  const trusted = isTrustedProxy(request.remoteAddress, trustedProxies);
+  const requestUrl = parseAbsoluteUrl(request.url);
+
+  const host =
+    (trusted && firstForwardedValue(headers.get('x-forwarded-host'))) ||
+    headers.get(':authority') ||
+    headers.get('host') ||
+    requestUrl?.host;
+  const protocol = (
+    (trusted && firstForwardedValue(headers.get('x-forwarded-proto'))) ||
+    request.protocol ||
+    requestUrl?.protocol.slice(0, -1) ||
+    'http'
+  ).toLowerCase();
+
+  // Reject anything that could smuggle a different authority into the URL
+  if (!host || /[/\\@?#\s]/.test(host)) {
+    return null;
+  }
+  if (protocol !== 'http' && protocol !== 'https') {
+    return null;
+  }
+
+  try {
+    return new URL(`${protocol}://${host}`).origin;
+  } catch {
+    return null;
+  }
+}
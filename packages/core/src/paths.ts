@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Request path matching for `excludePaths` and `includePaths`.
+ *
+ * Plain strings keep the original segment-aware prefix semantics. Strings
+ * with globs or route parameters are compiled to regular expressions that
+ * match the whole path, and regular expressions must match the whole path as
+ * well.
+ */
+
+import { matchesWhole } from './regexp.js';
+import type { PathMatcher, PathPattern } from './types.js';
+
+const ROUTE_PARAM = /^:[A-Za-z_]\w*$/;
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isPlainPath(pattern: string): boolean {
+  return (
+    !pattern.includes('*') &&
+    !pattern.split('/').some((segment) => ROUTE_PARAM.test(segment))
+  );
+}
+
+/**
+ * Compiles a glob or route pattern, one path segment at a time.
+ *
+ * @internal
+ */
+function compilePathPattern(pattern: string): RegExp {
+  const cached = compiledPatterns.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+  for (const [index, segment] of pattern.split('/').entries()) {
+    const separator = index === 0 ? '' : '/';
+    if (segment === '**') {
+      // Any number of segments, including none
+      source += index === 0 ? '.*' : '(?:/.*)?';
+    } else if (segment === '*' || ROUTE_PARAM.test(segment)) {
+      source += `${separator}[^/]+`;
+    } else {
+      source += separator + segment.split('*').map(escapeRegExp).join('[^/]*');
+    }
+  }
+
+  const compiled = new RegExp(`^${source}/?$`);
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+}
+
+function matchesPattern(pathname: string, pattern: PathPattern): boolean {
+  if (pattern instanceof RegExp) {
+    return matchesWhole(pathname, pattern);
+  }
+  if (isPlainPath(pattern)) {
+    return (
+      pathname === pattern ||
+      pathname.startsWith(pattern.endsWith('/') ? pattern : `${pattern}/`)
+    );
+  }
+  return compilePathPattern(pattern).test(pathname);
+}
+
+/**
+ * Checks a request path and method against a list of path matchers.
+ *
+ * - Plain strings match the path and its descendants on segment boundaries:
+ *   `'/api'` matches `/api` and `/api/v1` but not `/api-public`. With a
+ *   trailing slash (`'/api/'`) only descendants match.
+ * - Strings with globs or route parameters match the whole path: `*` matches
+ *   one segment (or part of one, as in `*.json`), `**` any number of
+ *   segments, and `:name` one segment, e.g. `/tenants/:id/callback` or
+ *   `/api/**`.
+ * - Regular expressions must match the whole pathname, as if anchored with
+ *   `^` and `$`: `/\/hooks/` matches `/hooks` but not `/api/hooks` or
+ *   `/hooks/github`. Use `/\/hooks(\/.*)?/` to match descendants too.
+ * - `{ path, methods }` rules only match the listed methods.
+ *
+ * @public
+ * @param pathname - Request pathname, without query string
+ * @param method - Request method
+ * @param matchers - Paths, patterns and rules to match against
+ * @returns True if any matcher matches
+ *
+ * @example
+ * ```typescript
+ * matchesPath('/tenants/42/callback', 'POST', ['/tenants/:id/callback']); // true
+ * matchesPath('/api/telemetry', 'GET', [
+ *   { path: '/api/telemetry', methods: ['POST'] },
+ * ]); // false
+ * ```
+ */
+export function matchesPath(
+  pathname: string,
+  method: string,
+  matchers: readonly PathMatcher[]
+): boolean {
+  const upperMethod = method.toUpperCase();
+  return matchers.some((matcher) => {
+    if (typeof matcher === 'string' || matcher instanceof RegExp) {
+      return matchesPattern(pathname, matcher);
+    }
+    if (
+      matcher.methods &&
+      !matcher.methods.some((allowed) => allowed.toUpperCase() === upperMethod)
+    ) {
+      return false;
+    }
+    return matchesPattern(pathname, matcher.path);
+  });
+}
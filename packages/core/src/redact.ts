@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Request redaction for lifecycle hooks and logging.
+ *
+ * Requests handed to hooks often end up in log pipelines, so anything that
+ * could be replayed (CSRF tokens, session cookies, credentials) is replaced
+ * before the request leaves the engine.
+ */
+
+import { CSRF_TOKEN_HEADER } from './constants.js';
+import { getCookies, getCookieValues, getHeaders } from './request.js';
+import type { CsrfRequest, RequiredCsrfConfig } from './types.js';
+
+/**
+ * Placeholder for redacted values.
+ *
+ * @public
+ */
+export const REDACTED = '[REDACTED]';
+
+const CREDENTIAL_HEADERS = ['cookie', 'authorization', 'proxy-authorization'];
+
+function redactUrl(url: string, fieldName: string): string {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) {
+    return url;
+  }
+
+  const params = new URLSearchParams(url.slice(queryStart + 1));
+  if (!params.has(fieldName)) {
+    return url;
+  }
+  params.set(fieldName, REDACTED);
+  return `${url.slice(0, queryStart)}?${params}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Returns a copy of a request that is safe to log.
+ *
+ * - The CSRF token header, `Cookie`, `Authorization` and
+ *   `Proxy-Authorization` headers are redacted; header names are lowercased.
+ * - Every cookie value is redacted, including those in `cookieValues`;
+ *   cookie names and the number of values are kept.
+ * - The token query parameter is redacted from the URL.
+ * - Plain object bodies keep every field except the token field. Other
+ *   bodies (strings, `FormData`, streams) are omitted, since the token
+ *   cannot be removed from them reliably.
+ *
+ * @public
+ * @param request - Normalized CSRF request
+ * @param config - Resolved CSRF configuration
+ * @returns The redacted request
+ *
+ * @example
+ * ```typescript
+ * redactRequest(
+ *   {
+ *     method: 'POST',
+ *     url: '/transfer?csrf_token=abc',
+ *     headers: { 'x-csrf-token': 'abc', 'user-agent': 'curl/8.0' },
+ *     cookies: { 'csrf-token': 'abc' },
+ *   },
+ *   config
+ * );
+ * // url: '/transfer?csrf_token=%5BREDACTED%5D'
+ * // headers: Map { 'x-csrf-token' => '[REDACTED]', 'user-agent' => 'curl/8.0' }
+ * // cookies: Map { 'csrf-token' => '[REDACTED]' }
+ * ```
+ */
+export function redactRequest(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig
+): CsrfRequest {
+  const sensitiveHeaders = new Set([
+    ...CREDENTIAL_HEADERS,
+    CSRF_TOKEN_HEADER,
+    config.token.headerName.toLowerCase(),
+  ]);
+
+  const headers = new Map<string, string>();
+  for (const [name, value] of getHeaders(request)) {
+    const lowerName = name.toLowerCase();
+    headers.set(lowerName, sensitiveHeaders.has(lowerName) ? REDACTED : value);
+  }
+
+  const cookies = new Map<string, string>();
+  for (const name of getCookies(request).keys()) {
+    cookies.set(name, REDACTED);
+  }
+
+  const redacted: CsrfRequest = {
+    method: request.method,
+    url: redactUrl(request.url, config.token.fieldName),
+    headers,
+    cookies,
+  };
+  if (request.cookieValues) {
+    const cookieValues = new Map<string, readonly string[]>();
+    for (const [name, values] of getCookieValues(request)) {
+      cookieValues.set(
+        name,
+        values.map(() => REDACTED)
+      );
+    }
+    redacted.cookieValues = cookieValues;
+  }
+  if (isPlainObject(request.body)) {
+    redacted.body = Object.hasOwn(request.body, config.token.fieldName)
+      ? { ...request.body, [config.token.fieldName]: REDACTED }
+      : { ...request.body };
+  }
+  if (request.remoteAddress !== undefined) {
+    redacted.remoteAddress = request.remoteAddress;
+  }
+  if (request.protocol !== undefined) {
+    redacted.protocol = request.protocol;
+  }
+
+  return redacted;
+}
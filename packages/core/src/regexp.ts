@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Whole-string matching for user-supplied regular expressions.
+ *
+ * @internal
+ */
+
+const anchoredPatterns = new WeakMap<RegExp, RegExp>();
+
+/**
+ * Tests whether a regular expression matches all of `value`, as if it were
+ * written `^(?:…)$`. An unanchored `/app\.example\.com/` therefore cannot
+ * match `https://app.example.com.evil.net`.
+ *
+ * The `g`, `y` and `m` flags are dropped, so `lastIndex` and line breaks
+ * never change the result.
+ *
+ * @internal
+ */
+export function matchesWhole(value: string, pattern: RegExp): boolean {
+  let anchored = anchoredPatterns.get(pattern);
+  if (!anchored) {
+    anchored = new RegExp(
+      `^(?:${pattern.source})$`,
+      pattern.flags.replace(/[gmy]/g, '')
+    );
+    anchoredPatterns.set(pattern, anchored);
+  }
+  return anchored.test(value);
+}
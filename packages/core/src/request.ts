@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Accessors for the header and cookie collections of a
+ * normalized request, which adapters may supply as a `Map`, a `Headers`
+ * instance or a plain object.
+ *
+ * @internal
+ */
+
+import type { CsrfRequest } from './types.js';
+
+/**
+ * Returns the request headers as a map.
+ *
+ * @internal
+ */
+export function getHeaders(request: CsrfRequest): Map<string, string> {
+  if (request.headers instanceof Map) {
+    return request.headers;
+  }
+  if (request.headers instanceof Headers) {
+    return new Map(request.headers);
+  }
+
+  return new Map(Object.entries(request.headers));
+}
+
+/**
+ * Returns the request cookies as a map of name to value.
+ *
+ * @internal
+ */
+export function getCookies(request: CsrfRequest): Map<string, string> {
+  if (request.cookies instanceof Map) {
+    return request.cookies;
+  }
+
+  return new Map(Object.entries(request.cookies));
+}
+
+/**
+ * Returns every value sent for each cookie; empty when the adapter does not
+ * report `cookieValues`.
+ *
+ * @internal
+ */
+export function getCookieValues(
+  request: CsrfRequest
+): Map<string, readonly string[]> {
+  if (request.cookieValues instanceof Map) {
+    return request.cookieValues;
+  }
+
+  return new Map(Object.entries(request.cookieValues ?? {}));
+}
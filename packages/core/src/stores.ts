@@ -0,0 +1,317 @@
+/**
+ * @fileoverview Server-side stores for one-time-use and synchronizer tokens.
+ *
+ * With `token.singleUse`, the nonce of every accepted token is recorded in a
+ * {@link TokenStore} until the token expires, so a captured token cannot be
+ * replayed. The `synchronizer` strategy keeps each session's token in a
+ * {@link SessionStore}. The in-memory stores suit single-process
+ * deployments; use the Redis stores when requests are served by more than
+ * one instance.
+ */
+
+import type { SessionStore, TokenStore } from './types.js';
+
+/** Default maximum number of nonces kept by {@link MemoryTokenStore} */
+const DEFAULT_MAX_SIZE = 10_000;
+
+/** Default key prefix used by {@link RedisTokenStore} */
+const DEFAULT_KEY_PREFIX = 'csrf:used:';
+
+/** Default key prefix used by {@link RedisSessionStore} */
+const DEFAULT_SESSION_KEY_PREFIX = 'csrf:session:';
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Options for {@link MemoryTokenStore}.
+ */
+export interface MemoryTokenStoreOptions {
+  /** Maximum number of nonces to keep (default: 10000) */
+  readonly maxSize?: number;
+}
+
+/**
+ * In-memory {@link TokenStore} with least-recently-used eviction.
+ *
+ * Expired nonces are purged once the store is full; if it is still full,
+ * the least recently used nonce is evicted, which makes that token
+ * replayable again. Size `maxSize` for the number of tokens used within one
+ * token lifetime. Nonces are not shared between processes.
+ *
+ * @public
+ *
+ * @example
+ * ```typescript
+ * const csrf = createCsrfProtection(adapter, {
+ *   strategy: 'signed-token',
+ *   token: { singleUse: true },
+ *   tokenStore: new MemoryTokenStore({ maxSize: 50_000 }),
+ * });
+ * ```
+ */
+export class MemoryTokenStore implements TokenStore {
+  private readonly maxSize: number;
+  /** Expiry of each used nonce, in least recently used order */
+  private readonly used = new Map<string, number>();
+
+  constructor(options: MemoryTokenStoreOptions = {}) {
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+  }
+
+  markUsed(nonce: string, exp: number): boolean {
+    if (this.isUsed(nonce)) {
+      return false;
+    }
+
+    this.used.set(nonce, exp);
+    if (this.used.size > this.maxSize) {
+      this.purgeExpired();
+    }
+    for (const oldest of this.used.keys()) {
+      if (this.used.size <= this.maxSize) {
+        break;
+      }
+      this.used.delete(oldest);
+    }
+    return true;
+  }
+
+  isUsed(nonce: string): boolean {
+    const exp = this.used.get(nonce);
+    if (exp === undefined) {
+      return false;
+    }
+
+    this.used.delete(nonce);
+    if (exp < now()) {
+      return false;
+    }
+    this.used.set(nonce, exp);
+    return true;
+  }
+
+  purgeExpired(): void {
+    const currentTime = now();
+    for (const [nonce, exp] of this.used) {
+      if (exp < currentTime) {
+        this.used.delete(nonce);
+      }
+    }
+  }
+
+  /** Number of nonces currently stored */
+  get size(): number {
+    return this.used.size;
+  }
+}
+
+/**
+ * Options for {@link MemorySessionStore}.
+ */
+export interface MemorySessionStoreOptions {
+  /** Maximum number of sessions to keep (default: 10000) */
+  readonly maxSize?: number;
+}
+
+/**
+ * In-memory {@link SessionStore} with least-recently-used eviction.
+ *
+ * Once full, expired tokens are purged and then the least recently used
+ * session is evicted; its next state-changing request fails until a safe
+ * request issues a new token. Tokens are not shared between processes.
+ *
+ * @public
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly maxSize: number;
+  /** Token and expiry of each session, in least recently used order */
+  private readonly sessions = new Map<string, { token: string; exp: number }>();
+
+  constructor(options: MemorySessionStoreOptions = {}) {
+    this.maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+  }
+
+  get(key: string): string | undefined {
+    const entry = this.sessions.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.sessions.delete(key);
+    if (entry.exp < now()) {
+      return undefined;
+    }
+    this.sessions.set(key, entry);
+    return entry.token;
+  }
+
+  set(key: string, token: string, ttl: number): void {
+    this.sessions.delete(key);
+    this.sessions.set(key, { token, exp: now() + ttl });
+    if (this.sessions.size <= this.maxSize) {
+      return;
+    }
+
+    const currentTime = now();
+    for (const [sessionKey, { exp }] of this.sessions) {
+      if (exp < currentTime) {
+        this.sessions.delete(sessionKey);
+      }
+    }
+    for (const oldest of this.sessions.keys()) {
+      if (this.sessions.size <= this.maxSize) {
+        break;
+      }
+      this.sessions.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.sessions.delete(key);
+  }
+
+  /** Number of sessions currently stored */
+  get size(): number {
+    return this.sessions.size;
+  }
+}
+
+/**
+ * Minimal Redis client used by {@link RedisTokenStore} and
+ * {@link RedisSessionStore}.
+ *
+ * Any client for a Redis-protocol server (Redis, Valkey, KeyDB, ...) can be
+ * adapted, e.g. `{ sendCommand: (args) => client.sendCommand(args) }` for
+ * `redis` or `{ sendCommand: ([command, ...args]) => client.call(command,
+ * ...args) }` for `ioredis`.
+ */
+export interface RedisCommandClient {
+  /** Sends a command such as `['SET', key, value, 'NX']` and returns the reply */
+  sendCommand(args: string[]): Promise<unknown>;
+}
+
+/**
+ * Options for {@link RedisTokenStore}.
+ */
+export interface RedisTokenStoreOptions {
+  /** Prefix for the keys of used nonces (default: 'csrf:used:') */
+  readonly keyPrefix?: string;
+}
+
+/**
+ * {@link TokenStore} backed by a Redis-protocol server, shared by every
+ * instance that uses the same server.
+ *
+ * Each used nonce is stored with `SET ... NX` under a key that expires with
+ * the token, so marking is atomic across instances and expired nonces are
+ * removed by the server.
+ *
+ * @public
+ *
+ * @example
+ * ```typescript
+ * import { createClient } from 'redis';
+ *
+ * const client = await createClient({ url: process.env.REDIS_URL }).connect();
+ *
+ * const csrf = createCsrfProtection(adapter, {
+ *   strategy: 'signed-token',
+ *   token: { singleUse: true },
+ *   tokenStore: new RedisTokenStore({
+ *     sendCommand: (args) => client.sendCommand(args),
+ *   }),
+ * });
+ * ```
+ */
+export class RedisTokenStore implements TokenStore {
+  private readonly keyPrefix: string;
+
+  constructor(
+    private readonly client: RedisCommandClient,
+    options: RedisTokenStoreOptions = {}
+  ) {
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  }
+
+  async markUsed(nonce: string, exp: number): Promise<boolean> {
+    const ttl = Math.max(exp - now(), 1);
+    const reply = await this.client.sendCommand([
+      'SET',
+      this.keyPrefix + nonce,
+      '1',
+      'EX',
+      String(ttl),
+      'NX',
+    ]);
+    return reply === 'OK';
+  }
+
+  async isUsed(nonce: string): Promise<boolean> {
+    const reply = await this.client.sendCommand([
+      'EXISTS',
+      this.keyPrefix + nonce,
+    ]);
+    return Number(reply) > 0;
+  }
+
+  /** No-op: the server expires used nonces with their tokens */
+  async purgeExpired(): Promise<void> {}
+}
+
+/**
+ * Options for {@link RedisSessionStore}.
+ */
+export interface RedisSessionStoreOptions {
+  /** Prefix for the keys of session tokens (default: 'csrf:session:') */
+  readonly keyPrefix?: string;
+}
+
+/**
+ * {@link SessionStore} backed by a Redis-protocol server, shared by every
+ * instance that uses the same server. Tokens are stored with `SET ... EX`
+ * and expire on the server.
+ *
+ * @public
+ *
+ * @example
+ * ```typescript
+ * const csrf = createCsrfProtection(adapter, {
+ *   strategy: 'synchronizer',
+ *   sessionIdentifier: (req) => getSessionId(req),
+ *   sessionStore: new RedisSessionStore({
+ *     sendCommand: (args) => client.sendCommand(args),
+ *   }),
+ * });
+ * ```
+ */
+export class RedisSessionStore implements SessionStore {
+  private readonly keyPrefix: string;
+
+  constructor(
+    private readonly client: RedisCommandClient,
+    options: RedisSessionStoreOptions = {}
+  ) {
+    this.keyPrefix = options.keyPrefix ?? DEFAULT_SESSION_KEY_PREFIX;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const reply = await this.client.sendCommand(['GET', this.keyPrefix + key]);
+    return typeof reply === 'string' ? reply : undefined;
+  }
+
+  async set(key: string, token: string, ttl: number): Promise<void> {
+    await this.client.sendCommand([
+      'SET',
+      this.keyPrefix + key,
+      token,
+      'EX',
+      String(Math.max(ttl, 1)),
+    ]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.sendCommand(['DEL', this.keyPrefix + key]);
+  }
+}
@@ -0,0 +1,704 @@
+/**
+ * @fileoverview Built-in CSRF protection strategies and strategy resolution.
+ *
+ * Every built-in strategy is a {@link StrategyDefinition}, the same interface
+ * used for custom strategies registered through `CsrfConfig.strategies`.
+ */
+
+import {
+  DEFAULT_NONCE_LENGTH,
+  ORIGIN_CHECK_NONCE_LENGTH,
+  SERVER_CSRF_COOKIE_SUFFIX,
+} from './constants.js';
+import {
+  generateEncryptedToken,
+  generateNonce,
+  generateSignedToken,
+  getSigningKeyId,
+  parseEncryptedToken,
+  parseSignedToken,
+  signUnsignedToken,
+  timingSafeEqual,
+  verifySignedToken,
+} from './crypto.js';
+import { CsrfConfigError } from './errors.js';
+import { getCookies } from './request.js';
+import type {
+  CompositeStrategy,
+  CsrfRequest,
+  CsrfStrategy,
+  RequiredCsrfConfig,
+  StrategyConfig,
+  StrategyDefinition,
+  StrategyFailure,
+  TokenData,
+  TokenExtractor,
+  TokenPayload,
+  ValidationResult,
+} from './types.js';
+import {
+  getSessionKey,
+  validateDoubleSubmit,
+  validateEncryptedToken,
+  validateFetchMetadata,
+  validateOrigin,
+  validateScopedToken,
+  validateSignedDoubleSubmit,
+  validateSignedToken,
+  validateSynchronizerToken,
+} from './validation.js';
+
+/**
+ * Issues a plain random nonce used as both client and cookie token.
+ *
+ * @internal
+ */
+function issueNonce(
+  config: RequiredCsrfConfig,
+  length: number,
+  strategy: CsrfStrategy
+): TokenData {
+  const token = generateNonce(length);
+  if (!token) {
+    throw new Error(
+      `CSRF Error: Failed to generate nonce for strategy "${strategy}".`
+    );
+  }
+  return {
+    clientToken: token,
+    cookieToken: token,
+    cookieOptions: { ...config.cookie, httpOnly: false },
+  };
+}
+
+/**
+ * Issues a self-contained signed token (`signed-token` and `hybrid`).
+ *
+ * @internal
+ */
+async function issueSignedToken(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig
+): Promise<TokenData> {
+  const sessionId = await config.sessionIdentifier?.(request);
+  const signedToken = await generateSignedToken(
+    config.secret,
+    config.token.expiry,
+    sessionId
+  );
+  return {
+    clientToken: signedToken,
+    cookieToken: signedToken,
+    cookieOptions: { ...config.cookie, httpOnly: false },
+  };
+}
+
+/**
+ * Returns whether a one-time-use token was already used (`token.singleUse`).
+ *
+ * @internal
+ */
+async function isTokenUsed(
+  payload: TokenPayload,
+  config: RequiredCsrfConfig
+): Promise<boolean> {
+  return (
+    config.token.singleUse &&
+    (await config.tokenStore?.isUsed(payload.nonce)) === true
+  );
+}
+
+/**
+ * Reuses a signed token from the CSRF cookie while it is valid, signed with
+ * the current key, not within the reissue threshold of its expiry and, for
+ * one-time-use tokens, not yet used.
+ *
+ * @internal
+ */
+async function reuseSignedToken(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig
+): Promise<TokenData | null> {
+  const clientToken = getCookies(request).get(config.cookie.name);
+  if (!clientToken) {
+    return null;
+  }
+
+  const sessionId = await config.sessionIdentifier?.(request);
+  const payload = await parseSignedToken(clientToken, config.secret, sessionId);
+
+  const currentTime = Math.floor(Date.now() / 1000);
+  if (
+    payload.kid !== getSigningKeyId(config.secret) ||
+    payload.exp <= currentTime + config.token.reissueThreshold ||
+    (await isTokenUsed(payload, config))
+  ) {
+    return null;
+  }
+
+  return {
+    clientToken,
+    cookieToken: clientToken,
+    cookieOptions: { ...config.cookie, httpOnly: false },
+  };
+}
+
+/**
+ * Issues an encrypted token carrying the claims from `config.tokenClaims`
+ * (`encrypted-token`).
+ *
+ * @internal
+ */
+async function issueEncryptedToken(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig
+): Promise<TokenData> {
+  const sessionId = await config.sessionIdentifier?.(request);
+  const claims = await config.tokenClaims?.(request);
+  const encryptedToken = await generateEncryptedToken(
+    config.secret,
+    config.token.expiry,
+    claims,
+    sessionId
+  );
+  return {
+    clientToken: encryptedToken,
+    cookieToken: encryptedToken,
+    cookieOptions: { ...config.cookie, httpOnly: false },
+  };
+}
+
+/**
+ * Reuses an encrypted token from the CSRF cookie under the same conditions
+ * as {@link reuseSignedToken}, as long as `config.validateClaims` still
+ * accepts its claims for this request.
+ *
+ * @internal
+ */
+async function reuseEncryptedToken(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig
+): Promise<TokenData | null> {
+  const clientToken = getCookies(request).get(config.cookie.name);
+  if (!clientToken) {
+    return null;
+  }
+
+  const sessionId = await config.sessionIdentifier?.(request);
+  const payload = await parseEncryptedToken(
+    clientToken,
+    config.secret,
+    sessionId
+  );
+
+  const currentTime = Math.floor(Date.now() / 1000);
+  if (
+    payload.kid !== getSigningKeyId(config.secret) ||
+    payload.exp <= currentTime + config.token.reissueThreshold ||
+    (await isTokenUsed(payload, config)) ||
+    (config.validateClaims && !(await config.validateClaims(payload, request)))
+  ) {
+    return null;
+  }
+
+  return {
+    clientToken,
+    cookieToken: clientToken,
+    cookieOptions: { ...config.cookie, httpOnly: false },
+  };
+}
+
+/**
+ * Builds the token data of a `synchronizer` session. No CSRF cookie is set:
+ * the token only leaves the server in the response body and headers.
+ *
+ * @internal
+ */
+function synchronizerTokenData(
+  token: string,
+  config: RequiredCsrfConfig
+): TokenData {
+  return {
+    clientToken: token,
+    cookieOptions: { ...config.cookie, httpOnly: true },
+  };
+}
+
+/**
+ * Returns the token already stored for the request's session
+ * (`synchronizer`).
+ *
+ * @internal
+ */
+async function reuseSynchronizerToken(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig
+): Promise<TokenData | null> {
+  const sessionKey = await getSessionKey(request, config);
+  if (!sessionKey) {
+    return null;
+  }
+
+  const token = await config.sessionStore?.get(sessionKey);
+  return token ? synchronizerTokenData(token, config) : null;
+}
+
+/**
+ * Issues a `synchronizer` token. The token stored for the session is kept, as
+ * it is also issued before a state-changing request is validated against it;
+ * otherwise a new token is stored for `token.expiry` seconds under the
+ * session from `sessionIdentifier`.
+ *
+ * @internal
+ */
+async function issueSynchronizerToken(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig
+): Promise<TokenData> {
+  if (!config.sessionStore) {
+    throw new CsrfConfigError([
+      {
+        severity: 'error',
+        path: 'sessionStore',
+        message: 'The synchronizer strategy requires a sessionStore.',
+      },
+    ]);
+  }
+
+  const existing = await reuseSynchronizerToken(request, config);
+  if (existing) {
+    return existing;
+  }
+
+  const sessionKey = await getSessionKey(request, config);
+  if (!sessionKey) {
+    throw new CsrfConfigError([
+      {
+        severity: 'error',
+        path: 'sessionIdentifier',
+        message:
+          'sessionIdentifier returned no session for the synchronizer strategy.',
+      },
+    ]);
+  }
+
+  const token = generateNonce(DEFAULT_NONCE_LENGTH);
+  await config.sessionStore.set(sessionKey, token, config.token.expiry);
+  return synchronizerTokenData(token, config);
+}
+
+const doubleSubmit: StrategyDefinition = {
+  issue: (_request, config) =>
+    issueNonce(config, DEFAULT_NONCE_LENGTH, 'double-submit'),
+  validate: (request, extractToken, config) =>
+    validateDoubleSubmit(request, config, extractToken),
+};
+
+const signedDoubleSubmit: StrategyDefinition = {
+  async issue(request, config) {
+    const unsignedToken = generateNonce(DEFAULT_NONCE_LENGTH);
+    if (!unsignedToken) {
+      throw new Error(
+        'CSRF Error: Failed to generate nonce for strategy "signed-double-submit".'
+      );
+    }
+    const sessionId = await config.sessionIdentifier?.(request);
+    const signedToken = await signUnsignedToken(
+      unsignedToken,
+      config.secret,
+      sessionId
+    );
+    return {
+      clientToken: unsignedToken,
+      cookieToken: unsignedToken,
+      serverCookieToken: signedToken,
+      cookieOptions: { ...config.cookie, httpOnly: false },
+    };
+  },
+  validate: (request, extractToken, config) =>
+    validateSignedDoubleSubmit(request, config, extractToken),
+  async reuse(request, config) {
+    const cookies = getCookies(request);
+    const clientToken = cookies.get(config.cookie.name);
+    const serverCookieToken = cookies.get(
+      config.cookie.name + SERVER_CSRF_COOKIE_SUFFIX
+    );
+    if (!clientToken || !serverCookieToken) {
+      return null;
+    }
+
+    const sessionId = await config.sessionIdentifier?.(request);
+    const verifiedToken = await verifySignedToken(
+      serverCookieToken,
+      config.secret,
+      sessionId
+    );
+    if (!timingSafeEqual(verifiedToken, clientToken)) {
+      return null;
+    }
+
+    // Re-sign so tokens verified by a retired key move to the current one.
+    // ECDSA signatures differ on every call, so cookies signed with the
+    // current key are kept as they are.
+    const parts = serverCookieToken.split('.');
+    const kid = parts.length === 3 ? parts[0] : undefined;
+    if (kid === getSigningKeyId(config.secret)) {
+      return {
+        clientToken,
+        cookieToken: clientToken,
+        serverCookieToken,
+        cookieOptions: { ...config.cookie, httpOnly: false },
+      };
+    }
+
+    return {
+      clientToken,
+      cookieToken: clientToken,
+      serverCookieToken: await signUnsignedToken(
+        clientToken,
+        config.secret,
+        sessionId
+      ),
+      cookieOptions: { ...config.cookie, httpOnly: false },
+    };
+  },
+};
+
+const signedToken: StrategyDefinition = {
+  issue: issueSignedToken,
+  validate: (request, extractToken, config) =>
+    validateSignedToken(request, config, extractToken),
+  reuse: reuseSignedToken,
+};
+
+const encryptedToken: StrategyDefinition = {
+  issue: issueEncryptedToken,
+  validate: (request, extractToken, config) =>
+    validateEncryptedToken(request, config, extractToken),
+  reuse: reuseEncryptedToken,
+};
+
+const synchronizer: StrategyDefinition = {
+  issue: issueSynchronizerToken,
+  validate: (request, extractToken, config) =>
+    validateSynchronizerToken(request, config, extractToken),
+  reuse: reuseSynchronizerToken,
+};
+
+const originCheck: StrategyDefinition = {
+  tokenless: true,
+  issue: (_request, config) =>
+    issueNonce(config, ORIGIN_CHECK_NONCE_LENGTH, 'origin-check'),
+  validate: (request, _extractToken, config) => validateOrigin(request, config),
+};
+
+const fetchMetadata: StrategyDefinition = {
+  tokenless: true,
+  issue: (_request, config) =>
+    issueNonce(config, ORIGIN_CHECK_NONCE_LENGTH, 'fetch-metadata'),
+  validate: (request, _extractToken, config) =>
+    validateFetchMetadata(request, config),
+};
+
+const hybrid: StrategyDefinition = {
+  issue: issueSignedToken,
+  async validate(request, extractToken, config) {
+    const originResult = validateOrigin(request, config);
+    if (!originResult.isValid && !originResult.requiresToken) {
+      return originResult;
+    }
+
+    return await validateSignedToken(request, config, extractToken);
+  },
+  reuse: reuseSignedToken,
+};
+
+/**
+ * Built-in strategy definitions keyed by strategy name.
+ *
+ * @public
+ */
+export const BUILT_IN_STRATEGIES: Readonly<
+  Record<CsrfStrategy, StrategyDefinition>
+> = {
+  'double-submit': doubleSubmit,
+  'signed-double-submit': signedDoubleSubmit,
+  'signed-token': signedToken,
+  'encrypted-token': encryptedToken,
+  synchronizer,
+  'origin-check': originCheck,
+  'fetch-metadata': fetchMetadata,
+  hybrid,
+};
+
+function isComposite(strategy: StrategyConfig): strategy is CompositeStrategy {
+  return typeof strategy === 'object';
+}
+
+function getMembers(strategy: CompositeStrategy): readonly StrategyConfig[] {
+  return 'all' in strategy ? strategy.all : strategy.any;
+}
+
+/**
+ * Formats a strategy configuration for headers and error messages, e.g.
+ * `all(origin-check,signed-double-submit)`.
+ *
+ * @public
+ * @param strategy - Strategy name or composition
+ * @returns The formatted strategy
+ */
+export function formatStrategy(strategy: StrategyConfig): string {
+  if (!isComposite(strategy)) {
+    return strategy;
+  }
+
+  const mode = 'all' in strategy ? 'all' : 'any';
+  return `${mode}(${getMembers(strategy).map(formatStrategy).join(',')})`;
+}
+
+interface CompositeMember {
+  readonly name: string;
+  readonly definition: StrategyDefinition;
+}
+
+/**
+ * Builds the definition for a composite strategy from its resolved members,
+ * of which at most one is token-based (see `validateConfig`).
+ *
+ * @internal
+ */
+function createCompositeStrategy(
+  mode: 'all' | 'any',
+  members: readonly [CompositeMember, ...CompositeMember[]]
+): StrategyDefinition {
+  const tokenMembers = members.filter((member) => !member.definition.tokenless);
+  const issuer = (tokenMembers[0] ?? members[0]).definition;
+
+  return {
+    tokenless: tokenMembers.length === 0,
+    issue: (request, config) => issuer.issue(request, config),
+    reuse: async (request, config) =>
+      (await issuer.reuse?.(request, config)) ?? null,
+    async validate(request, extractToken, config) {
+      const failures: StrategyFailure[] = [];
+      let requiresToken = true;
+      for (const member of members) {
+        const result = await member.definition.validate(
+          request,
+          extractToken,
+          config
+        );
+        if (result.isValid) {
+          if (mode === 'any') return { isValid: true };
+        } else if (
+          !(mode === 'all' && result.requiresToken && tokenMembers.length > 0)
+        ) {
+          // Under `all`, the token-based member decides deferred failures
+          failures.push({
+            strategy: member.name,
+            reason: result.reason ?? 'Validation failed',
+            code: result.code ?? 'VALIDATION_FAILED',
+          });
+          requiresToken &&= result.requiresToken === true;
+        }
+      }
+
+      const [firstFailure] = failures;
+      if (!firstFailure) {
+        return { isValid: true };
+      }
+      return {
+        isValid: false,
+        code: firstFailure.code,
+        reason: failures
+          .map((failure) => `${failure.strategy}: ${failure.reason}`)
+          .join('; '),
+        failures,
+        ...(requiresToken && { requiresToken }),
+      };
+    },
+  };
+}
+
+/**
+ * Looks up a strategy by name. Registered strategies take precedence over
+ * built-in strategies with the same name.
+ *
+ * @internal
+ */
+export function findStrategy(
+  name: string,
+  registry: RequiredCsrfConfig['strategies']
+): StrategyDefinition | undefined {
+  if (registry && Object.hasOwn(registry, name)) {
+    return registry[name];
+  }
+  if (Object.hasOwn(BUILT_IN_STRATEGIES, name)) {
+    return BUILT_IN_STRATEGIES[name as CsrfStrategy];
+  }
+  return undefined;
+}
+
+function resolveStrategyConfig(
+  strategy: StrategyConfig,
+  registry: RequiredCsrfConfig['strategies']
+): StrategyDefinition | undefined {
+  if (!isComposite(strategy)) {
+    return findStrategy(strategy, registry);
+  }
+
+  const members: CompositeMember[] = [];
+  for (const member of getMembers(strategy)) {
+    const definition = resolveStrategyConfig(member, registry);
+    if (!definition) {
+      return undefined;
+    }
+    members.push({ name: formatStrategy(member), definition });
+  }
+
+  const [first, ...rest] = members;
+  const tokenMembers = members.filter((member) => !member.definition.tokenless);
+  if (!first || tokenMembers.length > 1) {
+    return undefined;
+  }
+  return createCompositeStrategy('all' in strategy ? 'all' : 'any', [
+    first,
+    ...rest,
+  ]);
+}
+
+/**
+ * Resolves the checks a strategy makes on the request itself, leaving out
+ * its token-based members: tokenless strategies such as `origin-check`, and
+ * the origin check of `hybrid`.
+ *
+ * @returns The checks, `null` if a token alone satisfies the strategy, or
+ *   `undefined` if the strategy does not resolve
+ * @internal
+ */
+function resolveRequestChecks(
+  strategy: StrategyConfig,
+  registry: RequiredCsrfConfig['strategies']
+): CompositeMember | null | undefined {
+  if (!isComposite(strategy)) {
+    const definition = findStrategy(strategy, registry);
+    if (!definition) {
+      return undefined;
+    }
+    if (definition.tokenless) {
+      return { name: strategy, definition };
+    }
+    return definition === hybrid
+      ? { name: 'origin-check', definition: originCheck }
+      : null;
+  }
+
+  const mode = 'all' in strategy ? 'all' : 'any';
+  const checks: CompositeMember[] = [];
+  for (const member of getMembers(strategy)) {
+    const check = resolveRequestChecks(member, registry);
+    if (check === undefined) {
+      return undefined;
+    }
+    if (check === null) {
+      // A member satisfied by the token alone satisfies `any`
+      if (mode === 'any') return null;
+      continue;
+    }
+    checks.push(check);
+  }
+
+  const [first, ...rest] = checks;
+  if (!first) {
+    return getMembers(strategy).length === 0 ? undefined : null;
+  }
+  if (rest.length === 0) {
+    return first;
+  }
+  return {
+    name: `${mode}(${checks.map((check) => check.name).join(',')})`,
+    definition: createCompositeStrategy(mode, [first, ...rest]),
+  };
+}
+
+/**
+ * Looks up the definition for the configured strategy.
+ *
+ * Strategies registered in `config.strategies` take precedence over the
+ * built-in strategies. Composite strategies resolve to a definition that
+ * runs their members.
+ *
+ * @public
+ * @param config - Resolved CSRF configuration
+ * @returns The strategy definition, or `undefined` if a name is unknown or
+ *   a composition has no members or more than one token-based member
+ */
+export function resolveStrategy(
+  config: RequiredCsrfConfig
+): StrategyDefinition | undefined {
+  return resolveStrategyConfig(config.strategy, config.strategies);
+}
+
+/**
+ * Validates a request using the configured strategy.
+ *
+ * @public
+ * @param request - Normalized CSRF request
+ * @param config - Resolved CSRF configuration
+ * @param getTokenFromRequest - Extracts the submitted token from the request
+ * @returns The validation result; unknown strategies are always invalid
+ */
+export async function validateRequest(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig,
+  getTokenFromRequest: TokenExtractor
+): Promise<ValidationResult> {
+  const strategy = resolveStrategy(config);
+  if (!strategy) {
+    return {
+      isValid: false,
+      code: 'VALIDATION_FAILED',
+      reason: 'Invalid strategy',
+    };
+  }
+
+  return await strategy.validate(request, getTokenFromRequest, config);
+}
+
+/**
+ * Validates a request to `scopedPaths`. The scoped token takes the place of
+ * the configured strategy's token; the strategy's request checks, such as
+ * the origin check of `hybrid`, still apply and run first.
+ *
+ * @internal
+ * @param request - Normalized CSRF request
+ * @param config - Resolved CSRF configuration
+ * @param getTokenFromRequest - Extracts the submitted token from the request
+ * @returns The validation result; unknown strategies are always invalid
+ */
+export async function validateScopedRequest(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig,
+  getTokenFromRequest: TokenExtractor
+): Promise<ValidationResult> {
+  const checks = resolveRequestChecks(config.strategy, config.strategies);
+  if (checks === undefined) {
+    return {
+      isValid: false,
+      code: 'VALIDATION_FAILED',
+      reason: 'Invalid strategy',
+    };
+  }
+
+  if (checks) {
+    const result = await checks.definition.validate(
+      request,
+      getTokenFromRequest,
+      config
+    );
+    if (!result.isValid && !result.requiresToken) {
+      return result;
+    }
+  }
+  return await validateScopedToken(request, config, getTokenFromRequest);
+}
@@ -5,17 +5,309 @@
  *
  * - `double-submit`: Classic double-submit cookie pattern. Good for most applications.
  * - `signed-double-submit`: Enhanced double-submit with cryptographic signatures. Recommended for high-security applications.
- * - `signed-token`: Server-side token validation with cryptographic signing. Most secure but requires server state.
+ * - `signed-token`: Stateless token validation with cryptographic signing. The signed token is sent in both a cookie and the request.
+ * - `encrypted-token`: Like `signed-token`, with an AES-GCM encrypted payload that can carry custom claims.
+ * - `synchronizer`: Classic synchronizer-token pattern. The token is stored server-side in a `SessionStore` against the user's session.
  * - `origin-check`: Validates request origin against allowed domains. Simple but less robust.
+ * - `fetch-metadata`: Validates browser `Sec-Fetch-*` headers, falling back to origin-check. No tokens or cookies required.
  * - `hybrid`: Combines multiple strategies for maximum security and flexibility.
  */
 export type CsrfStrategy =
   | 'double-submit'
   | 'signed-double-submit'
   | 'signed-token'
+  | 'encrypted-token'
+  | 'synchronizer'
   | 'origin-check'
+  | 'fetch-metadata'
   | 'hybrid';
 
+/**
+ * Name of a strategy: one of the built-in {@link CsrfStrategy} values or the
+ * name of a strategy registered through `CsrfConfig.strategies`.
+ */
+export type StrategyName = CsrfStrategy | (string & {});
+
+/**
+ * A composition of strategies. `all` requires every member to pass; `any`
+ * requires at least one. Members may themselves be compositions.
+ *
+ * At most one member may carry tokens; its tokens are issued for the whole
+ * composition. Members marked {@link StrategyDefinition.tokenless} only
+ * inspect the request.
+ *
+ * @example
+ * ```typescript
+ * const strategy: CompositeStrategy = {
+ *   all: ['origin-check', 'signed-double-submit'],
+ * };
+ * ```
+ */
+export type CompositeStrategy =
+  | { readonly all: readonly StrategyConfig[] }
+  | { readonly any: readonly StrategyConfig[] };
+
+/**
+ * Strategy selection: a single strategy name or a {@link CompositeStrategy}.
+ */
+export type StrategyConfig = StrategyName | CompositeStrategy;
+
+/**
+ * A single entry in a secret key ring.
+ *
+ * The `id` is embedded in every token signed with this key so the verifier
+ * can pick the right secret without trying every key in the ring.
+ */
+export interface SecretKey {
+  /** Key identifier embedded in signed tokens (must not contain '.') */
+  readonly id: string;
+  /** Secret used for HMAC signing and verification */
+  readonly secret: string;
+}
+
+/**
+ * Signature algorithm of an {@link AsymmetricKey}.
+ *
+ * - `Ed25519`: EdDSA over Curve25519
+ * - `ECDSA-P256`: ECDSA over the P-256 curve with SHA-256
+ */
+export type SigningAlgorithm = 'Ed25519' | 'ECDSA-P256';
+
+/**
+ * An asymmetric key pair entry in a key ring.
+ *
+ * Tokens are signed with the private key and verified with the public key,
+ * so services that only verify tokens, such as edge middleware, never hold
+ * signing material. Keys are Web Crypto `CryptoKey` objects or JSON Web
+ * Keys, e.g. from `generateSigningKeyPair`.
+ */
+export interface AsymmetricKey {
+  /** Key identifier embedded in signed tokens (must not contain '.') */
+  readonly id: string;
+  readonly algorithm: SigningAlgorithm;
+  /** Private key used to sign new tokens; omit on verify-only services */
+  readonly privateKey?: CryptoKey | JsonWebKey;
+  /** Public key used to verify tokens */
+  readonly publicKey: CryptoKey | JsonWebKey;
+}
+
+/**
+ * Ordered list of keys used for signing and verification.
+ *
+ * The first key is the current signing key. All remaining keys are retired
+ * and only used to verify tokens issued before the last rotation. Secret
+ * keys and asymmetric keys can be mixed, e.g. while migrating from one to
+ * the other.
+ *
+ * When the current key is an {@link AsymmetricKey} without a private key,
+ * CSRF protection is verify-only: it validates requests but never issues
+ * tokens or sets cookies.
+ *
+ * @example
+ * ```typescript
+ * const secret: SecretKeyRing = [
+ *   { id: '2024-06', secret: process.env.CSRF_SECRET_CURRENT },
+ *   { id: '2024-05', secret: process.env.CSRF_SECRET_PREVIOUS },
+ * ];
+ * ```
+ */
+export type SecretKeyRing = readonly (SecretKey | AsymmetricKey)[];
+
+/**
+ * Secret material accepted by the signing functions: either a single
+ * secret string or a {@link SecretKeyRing} for rotation.
+ */
+export type CsrfSecret = string | SecretKeyRing;
+
+/**
+ * Matches a request origin allowed by the origin-check strategies.
+ *
+ * - A string is an exact origin such as `https://app.example.com`, or a
+ *   pattern with a leading `*.` subdomain label and/or a `*` port, such as
+ *   `https://*.preview.example.com` or `http://localhost:*`. The scheme is
+ *   always required and must match.
+ * - A `RegExp` must match the whole normalized origin, as if anchored with
+ *   `^` and `$`.
+ * - A function receives the normalized origin and returns whether it is
+ *   allowed.
+ */
+export type OriginMatcher = string | RegExp | ((origin: string) => boolean);
+
+/**
+ * A request path pattern: a path, glob or route pattern (`/webhooks/*`,
+ * `/tenants/:id/callback`, `/api/**`), or a regular expression that must
+ * match the whole pathname. See `matchesPath` for the matching rules.
+ */
+export type PathPattern = string | RegExp;
+
+/**
+ * A path pattern that only applies to some request methods.
+ *
+ * @example
+ * ```typescript
+ * const rule: PathRule = { path: '/api/telemetry', methods: ['POST'] };
+ * ```
+ */
+export interface PathRule {
+  readonly path: PathPattern;
+  /** Methods the rule applies to (default: all methods) */
+  readonly methods?: readonly string[];
+}
+
+/**
+ * Matches requests for `excludePaths` and `includePaths`.
+ */
+export type PathMatcher = PathPattern | PathRule;
+
+/**
+ * How origin checks treat requests with `Origin: null` (sandboxed iframes,
+ * `file://` pages, cross-origin redirects) or without `Origin` and `Referer`
+ * (privacy proxies, `Referrer-Policy: no-referrer`).
+ *
+ * - `reject`: fail the origin check.
+ * - `fallback-to-token`: let a token-based strategy decide; strategies
+ *   without tokens still reject.
+ * - `allow-if-sec-fetch-site-same-origin`: accept only when the browser
+ *   reports `Sec-Fetch-Site: same-origin`.
+ */
+export type NullOriginPolicy =
+  | 'reject'
+  | 'fallback-to-token'
+  | 'allow-if-sec-fetch-site-same-origin';
+
+/**
+ * How requests carrying more than one value for a CSRF cookie are handled.
+ *
+ * Two values usually mean another site on the same parent domain planted
+ * its own CSRF cookie (cookie tossing), e.g. with `Domain=.example.com`.
+ *
+ * - `reject`: fail validation with `DUPLICATE_COOKIE`; safe methods are
+ *   issued a fresh token instead of reusing one.
+ * - `first`: use the first value in the `Cookie` header. Browsers send
+ *   cookies with longer paths first, so an attacker can win with a more
+ *   specific `Path`.
+ * - `last`: use the last value in the `Cookie` header.
+ */
+export type DuplicateCookiePolicy = 'reject' | 'first' | 'last';
+
+/**
+ * Decides per request whether CSRF protection is skipped or required.
+ */
+export type RequestPredicate = (
+  request: CsrfRequest
+) => boolean | Promise<boolean>;
+
+/**
+ * Context passed to lifecycle hooks.
+ */
+export interface CsrfEvent {
+  /**
+   * The normalized request with token, cookie and credential values
+   * redacted. See `redactRequest`.
+   */
+  readonly request: CsrfRequest;
+  /** Formatted strategy, e.g. `signed-double-submit` or `all(a,b)` */
+  readonly strategy: string;
+}
+
+/**
+ * Context passed to `onValidationFailure`.
+ */
+export interface CsrfFailureEvent extends CsrfEvent {
+  /** `report-only` when the request was let through despite the failure */
+  readonly mode: CsrfMode;
+  readonly code: CsrfFailureCode;
+  readonly reason: string;
+  /** Per-member failures when a composite strategy rejected the request */
+  readonly failures?: readonly StrategyFailure[];
+}
+
+/**
+ * Lifecycle hook. Hooks are awaited, and errors they throw propagate to the
+ * caller of `protect()`.
+ */
+export type CsrfEventHook<TEvent extends CsrfEvent = CsrfEvent> = (
+  event: TEvent
+) => void | Promise<void>;
+
+/**
+ * Resolves the session a request belongs to, e.g. from a session cookie.
+ *
+ * Should return a stable value for the lifetime of the session. Avoid
+ * returning the raw session secret if it is sensitive; a hash works too.
+ */
+export type SessionIdentifier = (
+  request: CsrfRequest
+) => string | Promise<string>;
+
+/**
+ * Custom claims carried by `encrypted-token` tokens, e.g. a user id, tenant
+ * or form purpose. Values must be JSON-serializable.
+ */
+export type TokenClaims = Readonly<Record<string, unknown>>;
+
+/**
+ * Resolves the claims embedded in new `encrypted-token` tokens, e.g. from
+ * the session the request belongs to.
+ */
+export type ClaimsProvider = (
+  request: CsrfRequest
+) => TokenClaims | Promise<TokenClaims>;
+
+/**
+ * Checks the payload of an `encrypted-token` token against the request,
+ * e.g. that the tenant in its claims owns the resource being modified.
+ * Return `false` to reject the request with `INVALID_CLAIMS`.
+ */
+export type ClaimsValidator = (
+  payload: TokenPayload,
+  request: CsrfRequest
+) => boolean | Promise<boolean>;
+
+/**
+ * Records the nonces of used tokens for `token.singleUse`.
+ *
+ * See `MemoryTokenStore` and `RedisTokenStore` for the built-in stores.
+ */
+export interface TokenStore {
+  /**
+   * Records a nonce as used until `exp` (Unix epoch seconds), when its token
+   * expires. Must be atomic: of concurrent calls for the same nonce, only
+   * one may return `true`.
+   *
+   * @returns `false` if the nonce was already marked as used
+   */
+  markUsed(nonce: string, exp: number): boolean | Promise<boolean>;
+  /** Returns whether a nonce is marked as used and not yet expired */
+  isUsed(nonce: string): boolean | Promise<boolean>;
+  /** Removes nonces whose tokens have expired */
+  purgeExpired(): void | Promise<void>;
+}
+
+/**
+ * Stores the tokens of the `synchronizer` strategy against a session key.
+ *
+ * The key is the value of `sessionIdentifier`. See `MemorySessionStore` and
+ * `RedisSessionStore` for the built-in stores.
+ */
+export interface SessionStore {
+  /** Returns the token stored for a session, if any and not yet expired */
+  get(key: string): string | undefined | Promise<string | undefined>;
+  /** Stores the token of a session for `ttl` seconds */
+  set(key: string, token: string, ttl: number): void | Promise<void>;
+  /** Removes the token of a session */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Cookie name prefix that makes browsers enforce cookie attributes.
+ *
+ * - `__Secure-`: the cookie must be `Secure`
+ * - `__Host-`: the cookie must be `Secure`, have `Path=/` and no `Domain`, so
+ *   subdomains cannot set or overwrite it
+ */
+export type CookiePrefix = '__Host-' | '__Secure-';
+
 /**
  * Cookie configuration options for CSRF tokens.
  *
@@ -25,6 +317,11 @@ export type CsrfStrategy =
 export interface CookieOptions {
   /** Cookie name (default: 'csrf-token') */
   name?: string;
+  /**
+   * Prefix prepended to the names of all CSRF cookies. `'__Host-'` is
+   * recommended for production: it prevents cookie tossing from subdomains
+   */
+  prefix?: CookiePrefix;
   /** Require HTTPS for cookie transmission (default: true) */
   secure?: boolean;
   /** Prevent client-side JavaScript access (default: false for client access) */
@@ -48,7 +345,9 @@ export interface CookieOptions {
  * @internal
  */
 export interface RequiredCookieOptions {
+  /** Full cookie name, including the prefix */
   name: string;
+  prefix?: CookiePrefix;
   secure: boolean;
   httpOnly: boolean;
   sameSite: 'strict' | 'lax' | 'none';
@@ -73,6 +372,18 @@ export interface TokenOptions {
   headerName?: string;
   /** Form field name for token submission (default: 'csrf_token') */
   fieldName?: string;
+  /**
+   * Mask the token exposed in responses with a fresh one-time pad on every
+   * response, so it cannot be recovered through compression oracles such
+   * as BREACH (default: false)
+   */
+  mask?: boolean;
+  /**
+   * Accept each token only once: the nonce of an accepted token is recorded
+   * in `tokenStore` and a fresh token is issued in the response. Applies to
+   * `signed-token`, `encrypted-token` and `hybrid` (default: false)
+   */
+  singleUse?: boolean;
 }
 
 /**
@@ -88,6 +399,28 @@ export interface RequiredTokenOptions {
   reissueThreshold: number;
   headerName: string;
   fieldName: string;
+  mask: boolean;
+  singleUse: boolean;
+}
+
+/**
+ * Fetch Metadata options for the `fetch-metadata` strategy.
+ *
+ * Controls which `Sec-Fetch-Site` values are accepted in addition to
+ * `same-origin` and user-initiated navigations (`none`).
+ */
+export interface FetchMetadataOptions {
+  /** Accept requests from other origins on the same site (default: false) */
+  allowSameSite?: boolean;
+}
+
+/**
+ * Required fetch metadata options with all mandatory fields present.
+ *
+ * @internal
+ */
+export interface RequiredFetchMetadataOptions {
+  allowSameSite: boolean;
 }
 
 /**
@@ -116,25 +449,137 @@ export interface RequiredTokenOptions {
  *   },
  *   allowedOrigins: ['https://yourdomain.com'],
  *   excludePaths: ['/api/public', '/health'],
- *   skipContentTypes: ['application/json']
+ *   skipContentTypes: ['application/json'],
+ *   sessionIdentifier: (req) => getSessionId(req)
  * };
  * ```
  */
 export interface CsrfConfig {
-  /** CSRF protection strategy to use (default: 'hybrid') */
-  strategy?: CsrfStrategy;
+  /**
+   * CSRF protection strategy, or composition of strategies, to use
+   * (default: 'signed-double-submit')
+   */
+  strategy?: StrategyConfig;
+  /**
+   * Whether failed validation blocks requests or is only reported
+   * (default: 'enforce')
+   */
+  mode?: CsrfMode;
+  /**
+   * Treat configuration warnings, such as a missing secret, as errors
+   * (default: false)
+   */
+  strict?: boolean;
+  /**
+   * Receives each configuration warning when `CsrfProtection` is
+   * constructed; without it warnings are not reported
+   */
+  onConfigWarning?: (issue: ConfigIssue) => void;
+  /**
+   * Custom strategies by name. Registered strategies take precedence over
+   * built-in strategies with the same name.
+   */
+  strategies?: Readonly<Record<string, StrategyDefinition>>;
   /** Token generation and validation options */
   token?: TokenOptions;
   /** Cookie storage and security options */
   cookie?: CookieOptions;
-  /** Secret key for cryptographic operations (auto-generated if not provided) */
-  secret?: string;
-  /** List of allowed request origins for origin-check strategy */
-  allowedOrigins?: readonly string[];
-  /** URL paths to exclude from CSRF protection */
-  excludePaths?: readonly string[];
+  /**
+   * Handling of requests that send a CSRF cookie more than once
+   * (default: 'reject')
+   */
+  duplicateCookiePolicy?: DuplicateCookiePolicy;
+  /**
+   * Secret key, or ordered key ring, for cryptographic operations
+   * (auto-generated if not provided)
+   */
+  secret?: CsrfSecret;
+  /** Allowed request origins or origin patterns for origin-check strategy */
+  allowedOrigins?: readonly OriginMatcher[];
+  /**
+   * Also accept requests from the origin they were sent to, derived from the
+   * `Host` or `:authority` header (default: true)
+   */
+  sameOrigin?: boolean;
+  /**
+   * Handling of `Origin: null` and of requests without `Origin` and
+   * `Referer` (default: 'reject')
+   */
+  nullOriginPolicy?: NullOriginPolicy;
+  /**
+   * Reject non-HTTPS `Referer` values on HTTPS requests without an `Origin`
+   * header (default: true)
+   */
+  strictReferer?: boolean;
+  /**
+   * Addresses of reverse proxies whose `X-Forwarded-Host` and
+   * `X-Forwarded-Proto` headers are trusted when deriving the request's own
+   * origin. `'*'` trusts every peer; only use it when the server is reachable
+   * exclusively through a proxy that overwrites these headers.
+   */
+  trustedProxies?: readonly string[];
+  /** Fetch Metadata options for the fetch-metadata strategy */
+  fetchMetadata?: FetchMetadataOptions;
+  /** URL paths, patterns or method-specific rules to exclude from CSRF protection */
+  excludePaths?: readonly PathMatcher[];
+  /**
+   * When set, only state-changing requests matching these paths are
+   * validated. Tokens are still issued on safe requests to any path, and
+   * `excludePaths` takes precedence.
+   */
+  includePaths?: readonly PathMatcher[];
   /** Content types to skip CSRF validation for */
   skipContentTypes?: readonly string[];
+  /**
+   * State-changing requests matching these paths must submit a token from
+   * `generateScopedToken` for their exact method and pathname instead of the
+   * regular token. Requires `sessionIdentifier`.
+   */
+  scopedPaths?: readonly PathMatcher[];
+  /**
+   * Skips CSRF protection, including token issuance, for matching requests,
+   * e.g. requests authenticated only by an `Authorization` header
+   */
+  skip?: RequestPredicate;
+  /**
+   * Forces CSRF protection for matching requests, overriding `skip`,
+   * `excludePaths`, `includePaths` and `skipContentTypes`
+   */
+  requireProtection?: RequestPredicate;
+  /**
+   * Resolves an identifier for the requesting user's session. When set,
+   * tokens from signed strategies are bound to it through the HMAC and are
+   * rejected when submitted from any other session.
+   */
+  sessionIdentifier?: SessionIdentifier;
+  /** Resolves the claims embedded in `encrypted-token` tokens */
+  tokenClaims?: ClaimsProvider;
+  /**
+   * Validates the claims of submitted `encrypted-token` tokens against the
+   * request. Also runs before a token is reused, so tokens whose claims no
+   * longer fit, e.g. after login, are replaced.
+   */
+  validateClaims?: ClaimsValidator;
+  /**
+   * Store for the nonces of used tokens when `token.singleUse` is set
+   * (default: a `MemoryTokenStore`)
+   */
+  tokenStore?: TokenStore;
+  /**
+   * Store for the tokens of the `synchronizer` strategy
+   * (default: a `MemorySessionStore`)
+   */
+  sessionStore?: SessionStore;
+  /** Called when a new token is issued */
+  onTokenIssued?: CsrfEventHook;
+  /** Called when a valid token from the request's cookies is reused */
+  onTokenReused?: CsrfEventHook;
+  /** Called when a state-changing request passes validation */
+  onValidationSuccess?: CsrfEventHook;
+  /** Called when a state-changing request fails validation */
+  onValidationFailure?: CsrfEventHook<CsrfFailureEvent>;
+  /** Called when a request is excluded from protection */
+  onSkipped?: CsrfEventHook;
 }
 
 /**
@@ -146,15 +591,107 @@ export interface CsrfConfig {
  * @internal
  */
 export interface RequiredCsrfConfig {
-  strategy: CsrfStrategy;
+  strategy: StrategyConfig;
+  mode: CsrfMode;
+  strategies?: Readonly<Record<string, StrategyDefinition>>;
   token: RequiredTokenOptions;
   cookie: RequiredCookieOptions;
-  secret: string;
-  allowedOrigins: readonly string[];
-  excludePaths: readonly string[];
+  duplicateCookiePolicy: DuplicateCookiePolicy;
+  secret: CsrfSecret;
+  allowedOrigins: readonly OriginMatcher[];
+  sameOrigin: boolean;
+  nullOriginPolicy: NullOriginPolicy;
+  strictReferer: boolean;
+  trustedProxies: readonly string[];
+  fetchMetadata: RequiredFetchMetadataOptions;
+  excludePaths: readonly PathMatcher[];
+  includePaths: readonly PathMatcher[];
   skipContentTypes: readonly string[];
+  scopedPaths: readonly PathMatcher[];
+  skip?: RequestPredicate;
+  requireProtection?: RequestPredicate;
+  sessionIdentifier?: SessionIdentifier;
+  tokenClaims?: ClaimsProvider;
+  validateClaims?: ClaimsValidator;
+  tokenStore?: TokenStore;
+  sessionStore?: SessionStore;
+  onTokenIssued?: CsrfEventHook;
+  onTokenReused?: CsrfEventHook;
+  onValidationSuccess?: CsrfEventHook;
+  onValidationFailure?: CsrfEventHook<CsrfFailureEvent>;
+  onSkipped?: CsrfEventHook;
 }
 
+/**
+ * Problem found by `validateConfig`.
+ */
+export interface ConfigIssue {
+  /**
+   * Errors prevent construction; warnings go to `onConfigWarning` unless
+   * `strict` is set
+   */
+  readonly severity: 'error' | 'warning';
+  /** Dotted path of the offending option, e.g. `cookie.sameSite` */
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * Whether failed validation blocks the request.
+ *
+ * - `enforce`: failed requests are rejected.
+ * - `report-only`: validation runs as usual, but `protect()` succeeds and
+ *   reports the would-be failure through `onValidationFailure` and the
+ *   `x-csrf-report` response header. Use it to measure breakage before
+ *   enforcing, like CSP's report-only mode.
+ */
+export type CsrfMode = 'enforce' | 'report-only';
+
+/**
+ * Stable, machine-readable reason a request failed CSRF validation.
+ *
+ * - `MISSING_TOKEN`: no token was submitted
+ * - `MISSING_COOKIE`: the CSRF cookie (or one of the cookie pair) is missing
+ * - `TOKEN_MISMATCH`: the submitted token does not match the cookie
+ * - `TOKEN_EXPIRED`: the signed token has expired
+ * - `TOKEN_REUSED`: the token was already used, see `token.singleUse`
+ * - `SCOPE_MISMATCH`: the scoped token was issued for another action
+ * - `TOKEN_INVALID`: the token is malformed
+ * - `BAD_SIGNATURE`: the signature does not verify, e.g. an unknown key id or
+ *   a token bound to a different session
+ * - `COOKIE_INTEGRITY`: the client cookie does not match the signed server
+ *   cookie
+ * - `ORIGIN_MISMATCH`: the origin is neither allowed nor same-origin
+ * - `MISSING_ORIGIN`: neither `Origin` nor `Referer` was sent
+ * - `NULL_ORIGIN`: the request was sent with `Origin: null`
+ * - `INVALID_REFERER`: the `Referer` is malformed or insecure
+ * - `CROSS_SITE_REQUEST`: Fetch Metadata headers reject the request
+ * - `DUPLICATE_COOKIE`: a CSRF cookie was sent more than once with different
+ *   values, see {@link DuplicateCookiePolicy}
+ * - `INVALID_CLAIMS`: `validateClaims` rejected the claims of an encrypted
+ *   token
+ * - `VALIDATION_FAILED`: any other failure, e.g. from a custom strategy that
+ *   does not report a code
+ */
+export type CsrfFailureCode =
+  | 'MISSING_TOKEN'
+  | 'MISSING_COOKIE'
+  | 'TOKEN_MISMATCH'
+  | 'TOKEN_EXPIRED'
+  | 'TOKEN_REUSED'
+  | 'SCOPE_MISMATCH'
+  | 'TOKEN_INVALID'
+  | 'BAD_SIGNATURE'
+  | 'COOKIE_INTEGRITY'
+  | 'ORIGIN_MISMATCH'
+  | 'MISSING_ORIGIN'
+  | 'NULL_ORIGIN'
+  | 'INVALID_REFERER'
+  | 'CROSS_SITE_REQUEST'
+  | 'DUPLICATE_COOKIE'
+  | 'INVALID_CLAIMS'
+  | 'VALIDATION_FAILED';
+
 /**
  * Result of CSRF token validation.
  *
@@ -165,18 +702,173 @@ export interface RequiredCsrfConfig {
 export interface ValidationResult {
   readonly isValid: boolean;
   readonly reason?: string;
+  /**
+   * Failure code; composite strategies report the code of their first
+   * failure
+   */
+  readonly code?: CsrfFailureCode;
+  /** Per-member failures when a composite strategy rejects the request */
+  readonly failures?: readonly StrategyFailure[];
+  /**
+   * Set on failures that a token-based strategy may override, e.g. a null
+   * origin under the `fallback-to-token` policy
+   */
+  readonly requiresToken?: boolean;
 }
 
 /**
- * Internal structure of a CSRF token payload.
- *
- * Used for signed token strategies that include expiration and nonce data.
+ * Failure of a single member of a composite strategy.
  *
  * @internal
  */
-export interface TokenPayload {
+export interface StrategyFailure {
+  /** Formatted member strategy, e.g. `origin-check` or `any(a,b)` */
+  readonly strategy: string;
+  readonly reason: string;
+  readonly code: CsrfFailureCode;
+}
+
+/**
+ * Payload of a signed or encrypted CSRF token.
+ *
+ * Signed tokens only carry the expiration and nonce; encrypted tokens also
+ * carry their issue time and custom claims.
+ *
+ * @typeParam TClaims - Shape of the custom claims
+ */
+export interface TokenPayload<TClaims extends TokenClaims = TokenClaims> {
   readonly exp: number;
   readonly nonce: string;
+  /** Identifier of the key that signed the token, when a key ring is used */
+  readonly kid?: string;
+  /** Issue time (Unix epoch seconds); encrypted tokens only */
+  readonly iat?: number;
+  /** Custom claims; encrypted tokens only */
+  readonly claims?: TClaims;
+  /** Action the token is valid for; scoped tokens only */
+  readonly scope?: TokenScope;
+}
+
+/**
+ * Action a scoped token is valid for: a request method and exact pathname.
+ * See `CsrfProtection.generateScopedToken`.
+ */
+export interface TokenScope {
+  /** Request method, e.g. `POST` */
+  readonly method: string;
+  /** Exact request pathname, e.g. `/account/delete` */
+  readonly path: string;
+  /** Token lifetime in seconds (default: `token.expiry`) */
+  readonly expiry?: number;
+}
+
+/**
+ * Token data issued for a request.
+ *
+ * Describes the token returned to the client and the cookies that
+ * carry it. Produced by {@link StrategyDefinition.issue} and
+ * {@link StrategyDefinition.reuse}.
+ */
+export interface TokenData {
+  /** Token exposed to the client via the response header and result */
+  clientToken: string;
+  /**
+   * Value of the CSRF cookie. Strategies that need no cookie, such as
+   * `synchronizer`, omit it.
+   */
+  cookieToken?: string;
+  /** Value of the httpOnly server cookie, if the strategy needs one */
+  serverCookieToken?: string;
+  /** Options for the CSRF cookies */
+  cookieOptions: RequiredCookieOptions;
+}
+
+/**
+ * Extracts the submitted CSRF token from a request (header, query or body).
+ *
+ * Usually the adapter's `getTokenFromRequest`.
+ */
+export type TokenExtractor = (
+  req: CsrfRequest,
+  config: RequiredCsrfConfig
+) => Promise<string | undefined>;
+
+/**
+ * Definition of a CSRF protection strategy.
+ *
+ * All built-in strategies are implemented on top of this interface. Custom
+ * strategies are registered by name through `CsrfConfig.strategies` and
+ * selected with `CsrfConfig.strategy`.
+ *
+ * @example
+ * ```typescript
+ * const deviceBound: StrategyDefinition = {
+ *   issue: (request, config) => {
+ *     const token = deriveDeviceToken(request);
+ *     return {
+ *       clientToken: token,
+ *       cookieToken: token,
+ *       cookieOptions: config.cookie,
+ *     };
+ *   },
+ *   validate: async (request, extractToken, config) => {
+ *     const token = await extractToken(request, config);
+ *     return token === deriveDeviceToken(request)
+ *       ? { isValid: true }
+ *       : { isValid: false, reason: 'Device mismatch' };
+ *   },
+ * };
+ *
+ * const csrf = createCsrfProtection(adapter, {
+ *   strategy: 'device-bound',
+ *   strategies: { 'device-bound': deviceBound },
+ * });
+ * ```
+ */
+export interface StrategyDefinition {
+  /**
+   * Whether the strategy validates the request without the issued tokens,
+   * like `origin-check`. Composite strategies issue tokens from their one
+   * member that is not tokenless.
+   */
+  readonly tokenless?: boolean;
+
+  /**
+   * Issues new tokens for a request.
+   *
+   * @param request - Normalized CSRF request
+   * @param config - Resolved CSRF configuration
+   */
+  issue(
+    request: CsrfRequest,
+    config: RequiredCsrfConfig
+  ): TokenData | Promise<TokenData>;
+
+  /**
+   * Validates a state-changing request.
+   *
+   * @param request - Normalized CSRF request
+   * @param extractToken - Extracts the submitted token from the request
+   * @param config - Resolved CSRF configuration
+   */
+  validate(
+    request: CsrfRequest,
+    extractToken: TokenExtractor,
+    config: RequiredCsrfConfig
+  ): ValidationResult | Promise<ValidationResult>;
+
+  /**
+   * Returns the tokens already held by the client if they can be reused
+   * on a safe request, or `null` to issue new ones. Strategies without
+   * `reuse` issue new tokens on every safe request.
+   *
+   * @param request - Normalized CSRF request
+   * @param config - Resolved CSRF configuration
+   */
+  reuse?(
+    request: CsrfRequest,
+    config: RequiredCsrfConfig
+  ): TokenData | null | Promise<TokenData | null>;
 }
 
 /**
@@ -192,10 +884,25 @@ export interface CsrfRequest {
   url: string;
   /** Request headers in various formats */
   headers: Map<string, string> | Record<string, string> | Headers;
-  /** Request cookies in various formats */
+  /** Request cookies in various formats, one value per name */
   cookies: Map<string, string> | Record<string, string>;
+  /**
+   * Every value of each cookie in `Cookie` header order, including cookies
+   * sent more than once. Set by adapters that can read the raw header; used
+   * to detect duplicate CSRF cookies.
+   */
+  cookieValues?:
+    | Map<string, readonly string[]>
+    | Record<string, readonly string[]>;
   /** Request body (can be any format depending on framework) */
   body?: unknown;
+  /** Address of the connected peer, used to decide whether to trust proxies */
+  remoteAddress?: string;
+  /**
+   * Protocol of the connection to this server, `http` or `https` (default:
+   * taken from `url` when absolute)
+   */
+  protocol?: string;
 }
 
 /**
@@ -213,6 +920,18 @@ export interface CsrfResponse {
     | Record<string, { value: string; options?: CookieOptions }>;
 }
 
+/**
+ * Token issued by `CsrfProtection.generateToken()`.
+ *
+ * The cookies must be set on the response for the token to validate.
+ */
+export interface GeneratedToken {
+  /** Token to send back in a header, form field or JSON body */
+  token: string;
+  /** CSRF cookies to set on the response with their options */
+  cookies: Map<string, { value: string; options: RequiredCookieOptions }>;
+}
+
 /**
  * Result of CSRF protection operation.
  *
@@ -223,6 +942,32 @@ export interface CsrfProtectResult {
   readonly success: boolean;
   readonly token?: string;
   readonly reason?: string;
+  /**
+   * Set when validation failed, including in `report-only` mode where
+   * `success` is still true
+   */
+  readonly code?: CsrfFailureCode;
+}
+
+/**
+ * Result of `CsrfProtection.validate()`.
+ *
+ * Carries the outcome of protection for a request whose response does not
+ * exist yet; `attach()` applies the CSRF headers and cookies to the response
+ * once it has been created.
+ *
+ * @template TResponse - Framework-specific response type
+ */
+export interface CsrfValidationHandle<TResponse> extends CsrfProtectResult {
+  /**
+   * Applies the CSRF headers and cookies to a response through the adapter.
+   * Call it once, on the response that is sent; skipped requests leave the
+   * response untouched.
+   *
+   * @param response - Framework-specific response object
+   * @returns The modified response
+   */
+  attach(response: TResponse): TResponse;
 }
 
 /**
@@ -1,30 +1,149 @@
-import { SAFE_METHODS } from './constants.js';
+import { SAFE_METHODS, SERVER_CSRF_COOKIE_SUFFIX } from './constants.js';
 import {
+  parseEncryptedToken,
+  parseScopedToken,
   parseSignedToken,
   timingSafeEqual,
+  unmaskToken,
   verifySignedToken,
 } from './crypto.js';
-import { OriginMismatchError } from './errors.js';
+import {
+  BadSignatureError,
+  CsrfConfigError,
+  OriginMismatchError,
+  TokenExpiredError,
+  TokenInvalidError,
+} from './errors.js';
+import { getRequestOrigin, isOriginAllowed } from './origin.js';
+import { getCookies, getHeaders } from './request.js';
 import type {
   CsrfRequest,
   RequiredCsrfConfig,
+  TokenPayload,
   ValidationResult,
 } from './types.js';
 
-function getHeaders(request: CsrfRequest): Map<string, string> {
-  if (request.headers instanceof Map) {
-    return request.headers;
+/**
+ * Converts an error thrown while verifying a token into a failed result.
+ * Configuration errors are rethrown, as they are not the request's fault.
+ *
+ * @internal
+ */
+function failureFromError(
+  error: unknown,
+  fallbackReason: string
+): ValidationResult {
+  if (error instanceof CsrfConfigError) {
+    throw error;
+  }
+  if (error instanceof TokenExpiredError) {
+    return { isValid: false, code: 'TOKEN_EXPIRED', reason: error.message };
+  }
+  if (error instanceof TokenInvalidError) {
+    return {
+      isValid: false,
+      code:
+        error instanceof BadSignatureError ? 'BAD_SIGNATURE' : 'TOKEN_INVALID',
+      reason: error.message,
+    };
+  }
+  if (error instanceof Error) {
+    return { isValid: false, code: 'VALIDATION_FAILED', reason: error.message };
   }
+  return { isValid: false, code: 'VALIDATION_FAILED', reason: fallbackReason };
+}
 
-  return new Map(Object.entries(request.headers));
+/**
+ * Compares a submitted token with the expected one. Masked submissions (see
+ * `token.mask`) are unmasked first; unmasked submissions are always
+ * accepted, e.g. tokens read from the CSRF cookie by client helpers.
+ *
+ * @internal
+ */
+function matchesSubmittedToken(expected: string, submitted: string): boolean {
+  if (timingSafeEqual(expected, submitted)) {
+    return true;
+  }
+  const unmasked = unmaskToken(submitted);
+  return unmasked !== null && timingSafeEqual(expected, unmasked);
 }
 
-function getCookies(request: CsrfRequest): Map<string, string> {
-  if (request.cookies instanceof Map) {
-    return request.cookies;
+/**
+ * Checks that a self-contained token was submitted and matches the CSRF
+ * cookie. The submitted token must be the one issued to this client, not
+ * just any unexpired token created with our secret.
+ *
+ * @internal
+ * @returns The cookie token, or the failed result
+ */
+async function matchCookieToken(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig,
+  getTokenFromRequest: (
+    req: CsrfRequest,
+    config: RequiredCsrfConfig
+  ) => Promise<string | undefined>
+): Promise<string | ValidationResult> {
+  const token = await getTokenFromRequest(request, config);
+
+  if (!token) {
+    return {
+      isValid: false,
+      code: 'MISSING_TOKEN',
+      reason: 'No CSRF token provided',
+    };
+  }
+
+  const cookieToken = getCookies(request).get(config.cookie.name);
+  if (!cookieToken) {
+    return {
+      isValid: false,
+      code: 'MISSING_COOKIE',
+      reason: 'No CSRF cookie found',
+    };
+  }
+
+  if (!matchesSubmittedToken(cookieToken, token)) {
+    return {
+      isValid: false,
+      code: 'TOKEN_MISMATCH',
+      reason: 'Token/cookie mismatch',
+    };
   }
 
-  return new Map(Object.entries(request.cookies));
+  return cookieToken;
+}
+
+/**
+ * Consumes the nonce of a verified token when `token.singleUse` is set, so
+ * the token is rejected if it is submitted again.
+ *
+ * @internal
+ */
+async function consumeToken(
+  payload: TokenPayload,
+  config: RequiredCsrfConfig
+): Promise<ValidationResult> {
+  if (!config.token.singleUse) {
+    return { isValid: true };
+  }
+  if (!config.tokenStore) {
+    throw new CsrfConfigError([
+      {
+        severity: 'error',
+        path: 'tokenStore',
+        message: 'token.singleUse requires a tokenStore.',
+      },
+    ]);
+  }
+  if (!(await config.tokenStore.markUsed(payload.nonce, payload.exp))) {
+    return {
+      isValid: false,
+      code: 'TOKEN_REUSED',
+      reason: 'Token has already been used',
+    };
+  }
+  return { isValid: true };
 }
 
 export async function validateSignedToken(
@@ -36,19 +155,244 @@ export async function validateSignedToken(
   ) => Promise<string | undefined>
 ): Promise<ValidationResult> {
   try {
-    const token = await getTokenFromRequest(request, config);
+    const cookieToken = await matchCookieToken(
+      request,
+      config,
+      getTokenFromRequest
+    );
+    if (typeof cookieToken !== 'string') {
+      return cookieToken;
+    }
+
+    const sessionId = await config.sessionIdentifier?.(request);
+    const payload = await parseSignedToken(
+      cookieToken,
+      config.secret,
+      sessionId
+    );
+    return await consumeToken(payload, config);
+  } catch (error) {
+    return failureFromError(error, 'Unknown error');
+  }
+}
 
+/**
+ * Validates an `encrypted-token` token: it must match the CSRF cookie,
+ * decrypt with the configured secret and, when `validateClaims` is set,
+ * carry claims accepted for this request.
+ *
+ * @public
+ * @param request - Normalized CSRF request
+ * @param config - Resolved CSRF configuration
+ * @param getTokenFromRequest - Extracts the submitted token from the request
+ * @returns The validation result
+ */
+export async function validateEncryptedToken(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig,
+  getTokenFromRequest: (
+    req: CsrfRequest,
+    config: RequiredCsrfConfig
+  ) => Promise<string | undefined>
+): Promise<ValidationResult> {
+  try {
+    const cookieToken = await matchCookieToken(
+      request,
+      config,
+      getTokenFromRequest
+    );
+    if (typeof cookieToken !== 'string') {
+      return cookieToken;
+    }
+
+    const sessionId = await config.sessionIdentifier?.(request);
+    const payload = await parseEncryptedToken(
+      cookieToken,
+      config.secret,
+      sessionId
+    );
+    if (
+      config.validateClaims &&
+      !(await config.validateClaims(payload, request))
+    ) {
+      return {
+        isValid: false,
+        code: 'INVALID_CLAIMS',
+        reason: 'Token claims rejected',
+      };
+    }
+    return await consumeToken(payload, config);
+  } catch (error) {
+    return failureFromError(error, 'Unknown error');
+  }
+}
+
+/**
+ * Validates a token from `CsrfProtection.generateScopedToken`: it must be
+ * signed for the request's session and name the request's method and exact
+ * pathname. With `token.singleUse`, its nonce is consumed.
+ *
+ * @public
+ * @param request - Normalized CSRF request
+ * @param config - Resolved CSRF configuration
+ * @param getTokenFromRequest - Extracts the submitted token from the request
+ * @returns The validation result
+ */
+export async function validateScopedToken(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig,
+  getTokenFromRequest: (
+    req: CsrfRequest,
+    config: RequiredCsrfConfig
+  ) => Promise<string | undefined>
+): Promise<ValidationResult> {
+  try {
+    const token = await getTokenFromRequest(request, config);
     if (!token) {
-      return { isValid: false, reason: 'No CSRF token provided' };
+      return {
+        isValid: false,
+        code: 'MISSING_TOKEN',
+        reason: 'No CSRF token provided',
+      };
     }
 
-    await parseSignedToken(token, config.secret);
-    return { isValid: true };
+    const sessionId = await config.sessionIdentifier?.(request);
+    const payload = await parseScopedToken(
+      unmaskToken(token) ?? token,
+      config.secret,
+      sessionId
+    );
+
+    const { pathname } = new URL(request.url, 'http://localhost');
+    if (
+      payload.scope.method !== request.method.toUpperCase() ||
+      payload.scope.path !== pathname
+    ) {
+      return {
+        isValid: false,
+        code: 'SCOPE_MISMATCH',
+        reason: 'Token scope does not match the request',
+      };
+    }
+    return await consumeToken(payload, config);
   } catch (error) {
-    if (error instanceof Error) {
-      return { isValid: false, reason: error.message };
+    return failureFromError(error, 'Unknown error');
+  }
+}
+
+/**
+ * Resolves the key under which the `synchronizer` token of a request is
+ * stored: the session from `config.sessionIdentifier`. Cookies are never
+ * consulted, so a session reference planted in one cannot select the token.
+ *
+ * @internal
+ */
+export async function getSessionKey(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig
+): Promise<string | undefined> {
+  if (!config.sessionIdentifier) {
+    throw new CsrfConfigError([
+      {
+        severity: 'error',
+        path: 'sessionIdentifier',
+        message: 'The synchronizer strategy requires a sessionIdentifier.',
+      },
+    ]);
+  }
+  return (await config.sessionIdentifier(request)) || undefined;
+}
+
+/**
+ * Validates a `synchronizer` token: the submitted token must match the one
+ * stored in `config.sessionStore` for the request's session.
+ *
+ * @public
+ * @param request - Normalized CSRF request
+ * @param config - Resolved CSRF configuration
+ * @param getTokenFromRequest - Extracts the submitted token from the request
+ * @returns The validation result
+ */
+export async function validateSynchronizerToken(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig,
+  getTokenFromRequest: (
+    req: CsrfRequest,
+    config: RequiredCsrfConfig
+  ) => Promise<string | undefined>
+): Promise<ValidationResult> {
+  try {
+    if (!config.sessionStore) {
+      throw new CsrfConfigError([
+        {
+          severity: 'error',
+          path: 'sessionStore',
+          message: 'The synchronizer strategy requires a sessionStore.',
+        },
+      ]);
+    }
+
+    const sessionKey = await getSessionKey(request, config);
+    if (!sessionKey) {
+      return {
+        isValid: false,
+        code: 'MISSING_COOKIE',
+        reason: 'No CSRF session found',
+      };
+    }
+
+    const submittedToken = await getTokenFromRequest(request, config);
+    if (!submittedToken) {
+      return {
+        isValid: false,
+        code: 'MISSING_TOKEN',
+        reason: 'No CSRF token submitted',
+      };
+    }
+
+    const storedToken = await config.sessionStore.get(sessionKey);
+    if (!storedToken) {
+      return {
+        isValid: false,
+        code: 'TOKEN_EXPIRED',
+        reason: 'No CSRF token stored for session',
+      };
     }
-    return { isValid: false, reason: 'Unknown error' };
+
+    if (!matchesSubmittedToken(storedToken, submittedToken)) {
+      return {
+        isValid: false,
+        code: 'TOKEN_MISMATCH',
+        reason: 'Token mismatch',
+      };
+    }
+    return { isValid: true };
+  } catch (error) {
+    return failureFromError(error, 'Unknown error');
+  }
+}
+
+/**
+ * Applies `config.nullOriginPolicy` to a request whose origin is opaque.
+ *
+ * @internal
+ */
+function applyNullOriginPolicy(
+  headers: Map<string, string>,
+  config: RequiredCsrfConfig,
+  code: 'NULL_ORIGIN' | 'MISSING_ORIGIN',
+  reason: string
+): ValidationResult {
+  switch (config.nullOriginPolicy) {
+    case 'fallback-to-token':
+      return { isValid: false, code, reason, requiresToken: true };
+    case 'allow-if-sec-fetch-site-same-origin':
+      if (headers.get('sec-fetch-site') === 'same-origin') {
+        return { isValid: true };
+      }
+      return { isValid: false, code, reason };
+    default:
+      return { isValid: false, code, reason };
   }
 }
 
@@ -60,32 +404,142 @@ export function validateOrigin(
   const origin = headers.get('origin');
   const referer = headers.get('referer');
 
+  if (origin === 'null') {
+    return applyNullOriginPolicy(
+      headers,
+      config,
+      'NULL_ORIGIN',
+      'Null origin not allowed'
+    );
+  }
   if (!origin && !referer && !SAFE_METHODS.includes(request.method as never)) {
-    return { isValid: false, reason: 'Missing origin and referer headers' };
+    return applyNullOriginPolicy(
+      headers,
+      config,
+      'MISSING_ORIGIN',
+      'Missing origin and referer headers'
+    );
   }
 
   let requestOrigin: string | null = origin ?? null;
   if (!requestOrigin && referer) {
+    let refererUrl: URL;
     try {
-      requestOrigin = new URL(referer).origin;
+      refererUrl = new URL(referer);
     } catch {
-      return { isValid: false, reason: 'Malformed Referer header' };
+      return {
+        isValid: false,
+        code: 'INVALID_REFERER',
+        reason: 'Malformed Referer header',
+      };
     }
+
+    // Like Django, an HTTPS request may not vouch for itself with a
+    // Referer that could have been tampered with in transit
+    if (
+      config.strictReferer &&
+      refererUrl.protocol !== 'https:' &&
+      getRequestOrigin(request, config.trustedProxies)?.startsWith('https:')
+    ) {
+      return {
+        isValid: false,
+        code: 'INVALID_REFERER',
+        reason: 'Referer is insecure while host is secure',
+      };
+    }
+    requestOrigin = refererUrl.origin;
   }
 
   if (!requestOrigin) {
-    return { isValid: false, reason: 'No origin or referer header' };
+    return {
+      isValid: false,
+      code: 'MISSING_ORIGIN',
+      reason: 'No origin or referer header',
+    };
   }
 
-  if (config.allowedOrigins.includes(requestOrigin)) {
+  if (isOriginAllowed(requestOrigin, config.allowedOrigins)) {
     return { isValid: true };
   }
 
+  if (config.sameOrigin) {
+    const expectedOrigin = getRequestOrigin(request, config.trustedProxies);
+    if (expectedOrigin && isOriginAllowed(requestOrigin, [expectedOrigin])) {
+      return { isValid: true };
+    }
+  }
+
   return {
     isValid: false,
+    code: 'ORIGIN_MISMATCH',
     reason: new OriginMismatchError(requestOrigin).message,
   };
 }
+/**
+ * Validates a request using browser Fetch Metadata headers.
+ *
+ * Implements a resource isolation policy: requests initiated by the same
+ * origin are accepted, same-site requests only when `allowSameSite` is
+ * enabled, and `Sec-Fetch-Site: none` only for user-initiated document
+ * navigations. Everything else is treated as cross-site.
+ *
+ * Browsers only send these headers in secure contexts, so requests without
+ * `Sec-Fetch-Site` fall back to {@link validateOrigin}.
+ */
+export function validateFetchMetadata(
+  request: CsrfRequest,
+  config: RequiredCsrfConfig
+): ValidationResult {
+  const headers = getHeaders(request);
+  const site = headers.get('sec-fetch-site');
+
+  if (!site) {
+    return validateOrigin(request, config);
+  }
+
+  switch (site) {
+    case 'same-origin':
+      return { isValid: true };
+
+    case 'same-site':
+      if (config.fetchMetadata.allowSameSite) {
+        return { isValid: true };
+      }
+      return {
+        isValid: false,
+        code: 'CROSS_SITE_REQUEST',
+        reason: 'Same-site request not allowed',
+      };
+
+    case 'none': {
+      const mode = headers.get('sec-fetch-mode');
+      const dest = headers.get('sec-fetch-dest');
+      if (mode === 'navigate' && (!dest || dest === 'document')) {
+        return { isValid: true };
+      }
+      return {
+        isValid: false,
+        code: 'CROSS_SITE_REQUEST',
+        reason: 'User-initiated request is not a document navigation',
+      };
+    }
+
+    case 'cross-site':
+      return {
+        isValid: false,
+        code: 'CROSS_SITE_REQUEST',
+        reason: 'Cross-site request blocked',
+      };
+
+    default:
+      return {
+        isValid: false,
+        code: 'CROSS_SITE_REQUEST',
+        reason: 'Invalid Sec-Fetch-Site header',
+      };
+  }
+}
+
 // DO NOT USE THIS IN PRODUCTION
 export async function validateDoubleSubmit(
   request: CsrfRequest,
@@ -101,15 +555,23 @@ export async function validateDoubleSubmit(
   const submittedToken = await getTokenFromRequest(request, config);
 
   if (!cookieToken) {
-    return { isValid: false, reason: 'No CSRF cookie found' };
+    return {
+      isValid: false,
+      code: 'MISSING_COOKIE',
+      reason: 'No CSRF cookie found',
+    };
   }
 
   if (!submittedToken) {
-    return { isValid: false, reason: 'No CSRF token submitted' };
+    return {
+      isValid: false,
+      code: 'MISSING_TOKEN',
+      reason: 'No CSRF token submitted',
+    };
   }
 
-  if (!timingSafeEqual(cookieToken, submittedToken)) {
-    return { isValid: false, reason: 'Token mismatch' };
+  if (!matchesSubmittedToken(cookieToken, submittedToken)) {
+    return { isValid: false, code: 'TOKEN_MISMATCH', reason: 'Token mismatch' };
   }
 
   return { isValid: true };
@@ -127,76 +589,54 @@ export async function validateSignedDoubleSubmit(
 
   const cookieName = config.cookie.name;
   const unsignedCookieToken = cookies.get(cookieName);
-  const signedCookieToken = cookies.get(`${cookieName}-server`);
+  const signedCookieToken = cookies.get(cookieName + SERVER_CSRF_COOKIE_SUFFIX);
   const submittedToken = await getTokenFromRequest(request, config);
 
   if (!unsignedCookieToken || !signedCookieToken) {
-    return { isValid: false, reason: 'Missing CSRF cookies' };
+    return {
+      isValid: false,
+      code: 'MISSING_COOKIE',
+      reason: 'Missing CSRF cookies',
+    };
   }
 
   if (!submittedToken) {
-    return { isValid: false, reason: 'No CSRF token submitted' };
+    return {
+      isValid: false,
+      code: 'MISSING_TOKEN',
+      reason: 'No CSRF token submitted',
+    };
   }
 
   try {
-    // 1. Verify the server cookie signature
+    // 1. Verify the server cookie signature (and session binding, if any)
+    const sessionId = await config.sessionIdentifier?.(request);
     const verifiedUnsignedToken = await verifySignedToken(
       signedCookieToken,
-      config.secret
+      config.secret,
+      sessionId
     );
 
     // 2. Ensure client cookie matches the verified token
     if (!timingSafeEqual(unsignedCookieToken, verifiedUnsignedToken)) {
-      return { isValid: false, reason: 'Cookie integrity check failed' };
+      return {
+        isValid: false,
+        code: 'COOKIE_INTEGRITY',
+        reason: 'Cookie integrity check failed',
+      };
     }
 
     // 3. Ensure submitted token matches the unsigned token
-    if (!timingSafeEqual(submittedToken, unsignedCookieToken)) {
-      return { isValid: false, reason: 'Token mismatch' };
+    if (!matchesSubmittedToken(unsignedCookieToken, submittedToken)) {
+      return {
+        isValid: false,
+        code: 'TOKEN_MISMATCH',
+        reason: 'Token mismatch',
+      };
     }
 
     return { isValid: true };
   } catch (error) {
-    if (error instanceof Error) {
-      return { isValid: false, reason: error.message };
-    }
-    return { isValid: false, reason: 'Token validation failed' };
-  }
-}
-
-export async function validateRequest(
-  request: CsrfRequest,
-  config: RequiredCsrfConfig,
-  getTokenFromRequest: (
-    req: CsrfRequest,
-    config: RequiredCsrfConfig
-  ) => Promise<string | undefined>
-): Promise<ValidationResult> {
-  switch (config.strategy) {
-    case 'signed-token':
-      return await validateSignedToken(request, config, getTokenFromRequest);
-
-    case 'origin-check':
-      return validateOrigin(request, config);
-
-    case 'double-submit':
-      return await validateDoubleSubmit(request, config, getTokenFromRequest);
-
-    case 'signed-double-submit':
-      return await validateSignedDoubleSubmit(
-        request,
-        config,
-        getTokenFromRequest
-      );
-
-    case 'hybrid': {
-      const originResult = validateOrigin(request, config);
-      if (!originResult.isValid) return originResult;
-
-      return await validateSignedToken(request, config, getTokenFromRequest);
-    }
-
-    default:
-      return { isValid: false, reason: 'Invalid strategy' };
+    return failureFromError(error, 'Token validation failed');
   }
 }
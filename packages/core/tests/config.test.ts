@@ -0,0 +1,439 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CsrfConfigError,
+  MemorySessionStore,
+  MemoryTokenStore,
+  validateConfig,
+} from '../src';
+import type { ConfigIssue, CsrfConfig } from '../src';
+
+const SECRET = 'a-32-character-secret-for-tests!';
+
+function getIssues(config: CsrfConfig): readonly ConfigIssue[] {
+  try {
+    return validateConfig(config);
+  } catch (error) {
+    if (error instanceof CsrfConfigError) {
+      return error.issues;
+    }
+    throw error;
+  }
+}
+
+describe('validateConfig', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should accept a clean configuration', () => {
+    expect(validateConfig({ secret: SECRET })).toEqual([]);
+  });
+
+  it('should reject sameSite none without secure cookies', () => {
+    expect(() =>
+      validateConfig({
+        secret: SECRET,
+        cookie: { sameSite: 'none', secure: false },
+      })
+    ).toThrow(CsrfConfigError);
+    expect(
+      validateConfig({
+        secret: SECRET,
+        cookie: { sameSite: 'none', secure: true },
+      })
+    ).toEqual([]);
+  });
+
+  it('should reject a reissueThreshold at least as long as the expiry', () => {
+    const issues = getIssues({
+      secret: SECRET,
+      token: { expiry: 300, reissueThreshold: 300 },
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        path: 'token.reissueThreshold',
+      }),
+    ]);
+  });
+
+  it('should check the default reissueThreshold against a short expiry', () => {
+    const issues = getIssues({ secret: SECRET, token: { expiry: 60 } });
+
+    expect(issues[0]?.path).toBe('token.reissueThreshold');
+  });
+
+  it('should reject a non-positive expiry', () => {
+    const issues = getIssues({ secret: SECRET, token: { expiry: 0 } });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'error', path: 'token.expiry' }),
+    ]);
+  });
+
+  it('should reject origin strategies that allow no origin', () => {
+    const issues = getIssues({ strategy: 'origin-check', sameOrigin: false });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'error', path: 'allowedOrigins' }),
+    ]);
+    expect(
+      validateConfig({
+        strategy: 'origin-check',
+        sameOrigin: false,
+        allowedOrigins: ['https://app.example.com'],
+      })
+    ).toEqual([]);
+    expect(validateConfig({ strategy: 'origin-check' })).toEqual([]);
+  });
+
+  it('should check strategies inside compositions', () => {
+    const issues = getIssues({
+      strategy: { all: ['origin-check', 'double-submit'] },
+      sameOrigin: false,
+    });
+
+    expect(issues[0]?.path).toBe('allowedOrigins');
+  });
+
+  describe('strategies', () => {
+    it('should reject unknown strategies', () => {
+      const issues = getIssues({ strategy: 'nope' });
+
+      expect(issues).toEqual([
+        expect.objectContaining({ severity: 'error', path: 'strategy' }),
+      ]);
+      expect(issues[0]?.message).toContain('"nope"');
+    });
+
+    it('should accept registered strategies', () => {
+      expect(
+        validateConfig({
+          strategy: { all: ['origin-check', 'device-bound'] },
+          strategies: {
+            'device-bound': {
+              issue: () => ({ clientToken: 'token', cookieToken: 'token' }),
+              validate: () => ({ isValid: true }),
+            },
+          },
+        })
+      ).toEqual([]);
+    });
+
+    it('should reject compositions without members', () => {
+      const issues = getIssues({
+        strategy: { all: ['origin-check', { any: [] }] },
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({ severity: 'error', path: 'strategy' }),
+      ]);
+      expect(issues[0]?.message).toContain('any() has no members');
+    });
+
+    it('should reject compositions with more than one token-based strategy', () => {
+      const issues = getIssues({
+        secret: SECRET,
+        strategy: { any: ['signed-token', 'double-submit'] },
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({ severity: 'error', path: 'strategy' }),
+      ]);
+      expect(issues[0]?.message).toContain('at most one token-based strategy');
+      expect(
+        validateConfig({
+          secret: SECRET,
+          strategy: { all: ['origin-check', 'fetch-metadata', 'signed-token'] },
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe('cookie prefixes', () => {
+    it('should require secure cookies', () => {
+      const issues = getIssues({
+        secret: SECRET,
+        cookie: { prefix: '__Secure-', secure: false },
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({ severity: 'error', path: 'cookie.secure' }),
+      ]);
+    });
+
+    it('should require path / and no domain for __Host- cookies', () => {
+      const issues = getIssues({
+        secret: SECRET,
+        cookie: { prefix: '__Host-', path: '/app', domain: 'example.com' },
+      });
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        'cookie.path',
+        'cookie.domain',
+      ]);
+    });
+
+    it('should check prefixes in the cookie name', () => {
+      const issues = getIssues({
+        secret: SECRET,
+        cookie: { name: '__Host-csrf', domain: 'example.com' },
+      });
+
+      expect(issues[0]?.path).toBe('cookie.domain');
+    });
+
+    it('should allow a domain for __Secure- cookies', () => {
+      expect(
+        validateConfig({
+          secret: SECRET,
+          cookie: { prefix: '__Secure-', domain: 'example.com' },
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe('secrets', () => {
+    it('should warn when a signed strategy has no secret', () => {
+      const warnings = validateConfig({ strategy: 'signed-token' });
+
+      expect(warnings).toEqual([
+        expect.objectContaining({ severity: 'warning', path: 'secret' }),
+      ]);
+    });
+
+    it('should not require a secret for unsigned strategies', () => {
+      expect(validateConfig({ strategy: 'double-submit' })).toEqual([]);
+      expect(validateConfig({ strategy: 'fetch-metadata' })).toEqual([]);
+    });
+
+    it('should warn about short secrets', () => {
+      const warnings = validateConfig({ secret: 'too-short' });
+
+      expect(warnings[0]?.message).toContain('9 characters');
+    });
+
+    it('should reject an empty secret', () => {
+      expect(() => validateConfig({ secret: '' })).toThrow(CsrfConfigError);
+    });
+
+    it('should check every key in a key ring', () => {
+      const issues = getIssues({
+        secret: [
+          { id: '2024.06', secret: SECRET },
+          { id: '2024-05', secret: 'short' },
+        ],
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({ severity: 'error', path: 'secret[0].id' }),
+        expect.objectContaining({
+          severity: 'warning',
+          path: 'secret[1].secret',
+        }),
+      ]);
+    });
+
+    it('should check asymmetric keys', () => {
+      const issues = getIssues({
+        secret: [
+          {
+            id: 'asym-1',
+            algorithm: 'RSA' as 'Ed25519',
+            publicKey: { kty: 'OKP' },
+          },
+        ],
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          severity: 'error',
+          path: 'secret[0].algorithm',
+        }),
+      ]);
+      expect(
+        validateConfig({
+          secret: [
+            { id: 'asym-1', algorithm: 'Ed25519', publicKey: { kty: 'OKP' } },
+          ],
+        })
+      ).toEqual([]);
+    });
+
+    it('should reject asymmetric keys for encrypted tokens', () => {
+      const issues = getIssues({
+        strategy: 'encrypted-token',
+        secret: [
+          { id: 'asym-1', algorithm: 'Ed25519', publicKey: { kty: 'OKP' } },
+        ],
+      });
+
+      expect(issues[0]?.path).toBe('secret[0]');
+    });
+
+    it('should reject an empty key ring', () => {
+      expect(() => validateConfig({ secret: [] })).toThrow(
+        'Secret key ring must contain at least one key.'
+      );
+    });
+  });
+
+  it('should warn about claims hooks without the encrypted-token strategy', () => {
+    const warnings = validateConfig({
+      secret: SECRET,
+      tokenClaims: () => ({ tenant: 'acme' }),
+    });
+
+    expect(warnings).toEqual([
+      expect.objectContaining({ severity: 'warning', path: 'tokenClaims' }),
+    ]);
+    expect(
+      validateConfig({
+        secret: SECRET,
+        strategy: 'encrypted-token',
+        tokenClaims: () => ({ tenant: 'acme' }),
+      })
+    ).toEqual([]);
+  });
+
+  describe('single-use tokens', () => {
+    it('should reject strategies without a token nonce', () => {
+      const issues = getIssues({
+        secret: SECRET,
+        strategy: 'double-submit',
+        token: { singleUse: true },
+      });
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          severity: 'error',
+          path: 'token.singleUse',
+        }),
+      ]);
+      expect(() =>
+        validateConfig({ secret: SECRET, token: { singleUse: true } })
+      ).toThrow(CsrfConfigError);
+    });
+
+    it('should warn about the in-memory store in production', () => {
+      vi.stubEnv('NODE_ENV', 'production');
+
+      const warnings = validateConfig({
+        secret: SECRET,
+        strategy: 'signed-token',
+        token: { singleUse: true },
+      });
+
+      expect(warnings).toEqual([
+        expect.objectContaining({ severity: 'warning', path: 'tokenStore' }),
+      ]);
+      expect(
+        validateConfig({
+          secret: SECRET,
+          strategy: 'signed-token',
+          token: { singleUse: true },
+          tokenStore: new MemoryTokenStore(),
+        })
+      ).toEqual([]);
+    });
+  });
+
+  it('should require a sessionIdentifier for scoped paths', () => {
+    const issues = getIssues({
+      secret: SECRET,
+      scopedPaths: ['/account/delete'],
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'error', path: 'scopedPaths' }),
+    ]);
+    expect(
+      validateConfig({
+        secret: SECRET,
+        scopedPaths: ['/account/delete'],
+        sessionIdentifier: () => 'session-1',
+      })
+    ).toEqual([]);
+  });
+
+  it('should require a sessionIdentifier for the synchronizer strategy', () => {
+    const issues = getIssues({ strategy: 'synchronizer' });
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        path: 'sessionIdentifier',
+      }),
+    ]);
+    expect(
+      getIssues({
+        strategy: { any: ['synchronizer', 'origin-check'] },
+        allowedOrigins: ['https://app.example.com'],
+      })
+    ).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        path: 'sessionIdentifier',
+      }),
+    ]);
+  });
+
+  it('should warn about the in-memory session store in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const sessionIdentifier = () => 'session-1';
+
+    const warnings = validateConfig({
+      strategy: 'synchronizer',
+      sessionIdentifier,
+    });
+
+    expect(warnings).toEqual([
+      expect.objectContaining({ severity: 'warning', path: 'sessionStore' }),
+    ]);
+    expect(
+      validateConfig({
+        strategy: 'synchronizer',
+        sessionIdentifier,
+        sessionStore: new MemorySessionStore(),
+      })
+    ).toEqual([]);
+  });
+
+  it('should warn about double-submit in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    const warnings = validateConfig({ strategy: 'double-submit' });
+
+    expect(warnings).toEqual([
+      expect.objectContaining({ severity: 'warning', path: 'strategy' }),
+    ]);
+  });
+
+  it('should report every issue at once', () => {
+    const issues = getIssues({
+      secret: 'short',
+      cookie: { sameSite: 'none', secure: false },
+      token: { expiry: 100 },
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'cookie.sameSite',
+      'token.reissueThreshold',
+      'secret',
+    ]);
+  });
+
+  describe('strict mode', () => {
+    it('should escalate warnings to errors', () => {
+      expect(() => validateConfig({ strict: true })).toThrow(CsrfConfigError);
+      expect(() => validateConfig({ secret: 'short', strict: true })).toThrow(
+        /secret: Secret is 5 characters long/
+      );
+    });
+
+    it('should accept a clean configuration', () => {
+      expect(validateConfig({ secret: SECRET, strict: true })).toEqual([]);
+    });
+  });
+});
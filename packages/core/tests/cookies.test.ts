@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { applyCookiePrefix, getCookiePrefix, parseCookieHeader } from '../src';
+import {
+  enforceCookiePrefix,
+  findDuplicateCookies,
+  selectCookieValues,
+} from '../src/cookies.js';
+import type { RequiredCookieOptions } from '../src';
+
+const OPTIONS: RequiredCookieOptions = {
+  name: 'csrf-token',
+  secure: false,
+  httpOnly: false,
+  sameSite: 'lax',
+  path: '/app',
+  domain: 'example.com',
+};
+
+describe('getCookiePrefix', () => {
+  it('should detect cookie prefixes', () => {
+    expect(getCookiePrefix('__Host-csrf-token')).toBe('__Host-');
+    expect(getCookiePrefix('__Secure-csrf-token')).toBe('__Secure-');
+    expect(getCookiePrefix('csrf-token')).toBeUndefined();
+  });
+});
+
+describe('applyCookiePrefix', () => {
+  it('should prepend the prefix once', () => {
+    expect(applyCookiePrefix('csrf-token', '__Host-')).toBe(
+      '__Host-csrf-token'
+    );
+    expect(applyCookiePrefix('__Host-csrf-token', '__Host-')).toBe(
+      '__Host-csrf-token'
+    );
+    expect(applyCookiePrefix('csrf-token')).toBe('csrf-token');
+  });
+});
+
+describe('enforceCookiePrefix', () => {
+  it('should make __Host- cookies secure, host-only and path-wide', () => {
+    const options = enforceCookiePrefix('__Host-csrf-token', OPTIONS);
+
+    expect(options).toEqual({
+      name: 'csrf-token',
+      secure: true,
+      httpOnly: false,
+      sameSite: 'lax',
+      path: '/',
+    });
+  });
+
+  it('should make __Secure- cookies secure', () => {
+    expect(enforceCookiePrefix('__Secure-csrf-token', OPTIONS)).toEqual({
+      ...OPTIONS,
+      secure: true,
+    });
+  });
+
+  it('should leave unprefixed cookies unchanged', () => {
+    expect(enforceCookiePrefix('csrf-token', OPTIONS)).toBe(OPTIONS);
+  });
+});
+
+describe('parseCookieHeader', () => {
+  it('should keep every value in header order', () => {
+    expect(
+      parseCookieHeader('csrf-token=abc; theme=dark; csrf-token=planted')
+    ).toEqual(
+      new Map([
+        ['csrf-token', ['abc', 'planted']],
+        ['theme', ['dark']],
+      ])
+    );
+  });
+
+  it('should decode values and strip quotes', () => {
+    expect(parseCookieHeader('a=%3Dx; b="quoted"; c=%E0%A4%A')).toEqual(
+      new Map([
+        ['a', ['=x']],
+        ['b', ['quoted']],
+        ['c', ['%E0%A4%A']],
+      ])
+    );
+  });
+
+  it('should return an empty map without a header', () => {
+    expect(parseCookieHeader(undefined).size).toBe(0);
+    expect(parseCookieHeader('').size).toBe(0);
+  });
+});
+
+describe('duplicate cookies', () => {
+  const request = {
+    method: 'POST',
+    url: '/',
+    headers: {},
+    cookies: { 'csrf-token': 'abc', theme: 'dark' },
+    cookieValues: {
+      'csrf-token': ['abc', 'planted'],
+      theme: ['dark', 'light'],
+      session: ['same', 'same'],
+    },
+  };
+
+  it('should only report the given names with distinct values', () => {
+    expect(
+      findDuplicateCookies(request, ['csrf-token', 'session', 'missing'])
+    ).toEqual(['csrf-token']);
+  });
+
+  it('should select the first or last value', () => {
+    const first = selectCookieValues(request, ['csrf-token'], 'first');
+    const last = selectCookieValues(request, ['csrf-token'], 'last');
+
+    expect(first.cookies).toEqual(
+      new Map([
+        ['csrf-token', 'abc'],
+        ['theme', 'dark'],
+      ])
+    );
+    expect((last.cookies as Map<string, string>).get('csrf-token')).toBe(
+      'planted'
+    );
+  });
+});
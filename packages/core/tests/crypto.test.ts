@@ -1,14 +1,26 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
+  generateEncryptedToken,
   generateNonce,
+  generateScopedToken,
   generateSecureSecret,
   generateSignedToken,
+  generateSigningKeyPair,
+  maskToken,
+  parseEncryptedToken,
+  parseScopedToken,
   parseSignedToken,
   signUnsignedToken,
   timingSafeEqual,
+  unmaskToken,
   verifySignedToken,
 } from '../src';
-import { TokenExpiredError, TokenInvalidError } from '../src';
+import {
+  BadSignatureError,
+  TokenExpiredError,
+  TokenInvalidError,
+} from '../src';
+import type { AsymmetricKey, SecretKeyRing, SigningAlgorithm } from '../src';
 
 describe('Crypto utilities', () => {
   beforeEach(() => {
@@ -158,6 +170,40 @@ describe('Crypto utilities', () => {
     });
   });
 
+  describe('maskToken', () => {
+    it('should round-trip through unmaskToken', async () => {
+      const token = await generateSignedToken('test-secret', 3600);
+
+      expect(unmaskToken(maskToken(token))).toBe(token);
+      expect(unmaskToken(maskToken('tökén'))).toBe('tökén');
+    });
+
+    it('should produce a different representation on each call', () => {
+      const token = generateNonce();
+      const masked = new Set(
+        Array.from({ length: 10 }, () => maskToken(token))
+      );
+
+      expect(masked.size).toBe(10);
+      expect([...masked].some((value) => value.includes(token))).toBe(false);
+    });
+
+    it('should produce URL-safe output', () => {
+      expect(maskToken(generateNonce())).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+  });
+
+  describe('unmaskToken', () => {
+    it('should return null for values that are not masked tokens', async () => {
+      expect(unmaskToken('')).toBeNull();
+      expect(unmaskToken('not base64!')).toBeNull();
+      expect(unmaskToken('abc')).toBeNull();
+      expect(unmaskToken(await generateSignedToken('test-secret', 3600))).toBe(
+        null
+      );
+    });
+  });
+
   describe('generateSecureSecret', () => {
     it('should return a non-empty string', () => {
       const secret = generateSecureSecret();
@@ -192,4 +238,427 @@ describe('Crypto utilities', () => {
       ).rejects.toThrow(new TokenInvalidError('Invalid expiration timestamp'));
     });
   });
+
+  describe('key rings', () => {
+    const currentRing: SecretKeyRing = [
+      { id: 'k2', secret: 'current-secret' },
+      { id: 'k1', secret: 'retired-secret' },
+    ];
+    const retiredRing: SecretKeyRing = [{ id: 'k1', secret: 'retired-secret' }];
+
+    it('should embed the signing key id in signed tokens', async () => {
+      const token = await generateSignedToken(currentRing, 3600);
+
+      expect(token).toMatch(/^k2\.\d+\.[a-f0-9]+\.[a-f0-9]+$/);
+      const payload = await parseSignedToken(token, currentRing);
+      expect(payload.kid).toBe('k2');
+    });
+
+    it('should verify tokens signed with a retired key', async () => {
+      const token = await generateSignedToken(retiredRing, 3600);
+
+      const payload = await parseSignedToken(token, currentRing);
+      expect(payload.kid).toBe('k1');
+    });
+
+    it('should reject tokens signed with an unknown key id', async () => {
+      const token = await generateSignedToken(
+        [{ id: 'k0', secret: 'retired-secret' }],
+        3600
+      );
+
+      await expect(parseSignedToken(token, currentRing)).rejects.toThrow(
+        'Unknown key id'
+      );
+    });
+
+    it('should reject tokens whose key id was tampered with', async () => {
+      const token = await generateSignedToken(retiredRing, 3600);
+      const tampered = token.replace(/^k1\./, 'k2.');
+
+      await expect(parseSignedToken(tampered, currentRing)).rejects.toThrow(
+        'Invalid signature'
+      );
+    });
+
+    it('should accept legacy tokens without a key id against any ring key', async () => {
+      const token = await generateSignedToken('retired-secret', 3600);
+
+      const payload = await parseSignedToken(token, currentRing);
+      expect(payload.kid).toBeUndefined();
+    });
+
+    it('should reject key id tokens when a single secret is configured', async () => {
+      const token = await generateSignedToken(retiredRing, 3600);
+
+      await expect(parseSignedToken(token, 'retired-secret')).rejects.toThrow(
+        'Token must have 3 parts'
+      );
+    });
+
+    it('should sign and verify unsigned tokens with key ids', async () => {
+      const signedToken = await signUnsignedToken('test-token', retiredRing);
+
+      expect(signedToken).toMatch(/^k1\.test-token\.[a-f0-9]+$/);
+      await expect(verifySignedToken(signedToken, currentRing)).resolves.toBe(
+        'test-token'
+      );
+    });
+
+    it('should throw for an empty key ring', async () => {
+      await expect(generateSignedToken([], 3600)).rejects.toThrow(
+        'Secret key ring must contain at least one key'
+      );
+    });
+
+    it('should throw for a signing key id containing a dot', async () => {
+      await expect(
+        signUnsignedToken('test-token', [{ id: 'k.1', secret: 'secret' }])
+      ).rejects.toThrow('Invalid key id');
+    });
+  });
+
+  describe('session binding', () => {
+    it('should not change the token format', async () => {
+      const token = await generateSignedToken('secret', 3600, 'session-a');
+      expect(token).toMatch(/^\d+\.[a-f0-9]+\.[a-f0-9]+$/);
+    });
+
+    it('should only verify with the session the token was bound to', async () => {
+      const token = await generateSignedToken('secret', 3600, 'session-a');
+
+      await expect(
+        parseSignedToken(token, 'secret', 'session-a')
+      ).resolves.toHaveProperty('nonce');
+      await expect(
+        parseSignedToken(token, 'secret', 'session-b')
+      ).rejects.toThrow(TokenInvalidError);
+      await expect(parseSignedToken(token, 'secret')).rejects.toThrow(
+        TokenInvalidError
+      );
+    });
+
+    it('should distinguish an empty session from an unbound token', async () => {
+      const signedToken = await signUnsignedToken('test-token', 'secret', '');
+
+      await expect(verifySignedToken(signedToken, 'secret', '')).resolves.toBe(
+        'test-token'
+      );
+      await expect(verifySignedToken(signedToken, 'secret')).rejects.toThrow(
+        TokenInvalidError
+      );
+    });
+  });
+
+  describe('encrypted tokens', () => {
+    const claims = { userId: 'u_123', tenant: 'acme', purpose: 'checkout' };
+
+    it('should round-trip claims', async () => {
+      const token = await generateEncryptedToken('secret', 3600, claims);
+      const payload = await parseEncryptedToken<typeof claims>(token, 'secret');
+
+      expect(payload.claims).toEqual(claims);
+      expect(payload.iat).toBe(Math.floor(Date.now() / 1000));
+      expect(payload.exp).toBe(payload.iat! + 3600);
+      expect(payload.nonce).toMatch(/^[a-f0-9]{32}$/);
+    });
+
+    it('should not expose the payload', async () => {
+      const token = await generateEncryptedToken('secret', 3600, claims);
+
+      expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+      expect(
+        atob(token.split('.')[1]!.replace(/-/g, '+').replace(/_/g, '/'))
+      ).not.toContain('acme');
+    });
+
+    it('should default to empty claims', async () => {
+      const token = await generateEncryptedToken('secret', 3600);
+
+      await expect(
+        parseEncryptedToken(token, 'secret')
+      ).resolves.toHaveProperty('claims', {});
+    });
+
+    it('should reject tokens encrypted with another secret', async () => {
+      const token = await generateEncryptedToken('secret', 3600, claims);
+
+      await expect(parseEncryptedToken(token, 'other-secret')).rejects.toThrow(
+        BadSignatureError
+      );
+    });
+
+    it('should reject tampered tokens', async () => {
+      const token = await generateEncryptedToken('secret', 3600, claims);
+      const [iv, ciphertext] = token.split('.');
+      const tampered = `${iv}.${ciphertext!.startsWith('A') ? 'B' : 'A'}${ciphertext!.slice(1)}`;
+
+      await expect(parseEncryptedToken(tampered, 'secret')).rejects.toThrow(
+        BadSignatureError
+      );
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = await generateEncryptedToken('secret', 1);
+
+      vi.advanceTimersByTime(2000);
+
+      await expect(parseEncryptedToken(token, 'secret')).rejects.toThrow(
+        TokenExpiredError
+      );
+    });
+
+    it('should reject malformed tokens', async () => {
+      await expect(parseEncryptedToken('abc', 'secret')).rejects.toThrow(
+        'Encrypted token must have 2 parts'
+      );
+      await expect(parseEncryptedToken('a!.b', 'secret')).rejects.toThrow(
+        'Token parts must be base64url encoded'
+      );
+      await expect(
+        parseEncryptedToken(await generateSignedToken('secret', 3600), 'secret')
+      ).rejects.toThrow(TokenInvalidError);
+    });
+
+    it('should only decrypt with the session the token was bound to', async () => {
+      const token = await generateEncryptedToken(
+        'secret',
+        3600,
+        claims,
+        'session-a'
+      );
+
+      await expect(
+        parseEncryptedToken(token, 'secret', 'session-a')
+      ).resolves.toHaveProperty('claims', claims);
+      await expect(
+        parseEncryptedToken(token, 'secret', 'session-b')
+      ).rejects.toThrow(BadSignatureError);
+      await expect(parseEncryptedToken(token, 'secret')).rejects.toThrow(
+        BadSignatureError
+      );
+    });
+
+    it('should use key ids with key rings', async () => {
+      const currentRing: SecretKeyRing = [
+        { id: 'k2', secret: 'current-secret' },
+        { id: 'k1', secret: 'retired-secret' },
+      ];
+      const token = await generateEncryptedToken(
+        [{ id: 'k1', secret: 'retired-secret' }],
+        3600,
+        claims
+      );
+
+      expect(token.startsWith('k1.')).toBe(true);
+      const payload = await parseEncryptedToken(token, currentRing);
+      expect(payload.kid).toBe('k1');
+      expect(payload.claims).toEqual(claims);
+      await expect(
+        parseEncryptedToken(token, [{ id: 'k2', secret: 'current-secret' }])
+      ).rejects.toThrow('Unknown key id');
+    });
+  });
+
+  describe('scoped tokens', () => {
+    const scope = { method: 'post', path: '/account/delete' };
+
+    it('should round-trip the scope', async () => {
+      const token = await generateScopedToken('secret', 300, scope);
+      const payload = await parseScopedToken(token, 'secret');
+
+      expect(payload.scope).toEqual({
+        method: 'POST',
+        path: '/account/delete',
+      });
+      expect(payload.exp).toBe(Math.floor(Date.now() / 1000) + 300);
+    });
+
+    it('should sign the scope', async () => {
+      const token = await generateScopedToken('secret', 300, scope);
+      const other = await generateScopedToken('secret', 300, {
+        method: 'POST',
+        path: '/account/email',
+      });
+      const parts = token.split('.');
+      parts[2] = other.split('.')[2]!;
+
+      await expect(parseScopedToken(parts.join('.'), 'secret')).rejects.toThrow(
+        BadSignatureError
+      );
+    });
+
+    it('should not be interchangeable with signed tokens', async () => {
+      const scoped = await generateScopedToken('secret', 300, scope);
+      const signed = await generateSignedToken('secret', 300);
+
+      await expect(parseSignedToken(scoped, 'secret')).rejects.toThrow(
+        TokenInvalidError
+      );
+      await expect(parseScopedToken(signed, 'secret')).rejects.toThrow(
+        'Scoped token must have 4 parts'
+      );
+    });
+
+    it('should only verify with the session the token was bound to', async () => {
+      const token = await generateScopedToken(
+        'secret',
+        300,
+        scope,
+        'session-a'
+      );
+
+      await expect(
+        parseScopedToken(token, 'secret', 'session-a')
+      ).resolves.toHaveProperty('scope');
+      await expect(
+        parseScopedToken(token, 'secret', 'session-b')
+      ).rejects.toThrow(BadSignatureError);
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = await generateScopedToken('secret', 1, scope);
+
+      vi.advanceTimersByTime(2000);
+
+      await expect(parseScopedToken(token, 'secret')).rejects.toThrow(
+        TokenExpiredError
+      );
+    });
+
+    it('should use key ids with key rings', async () => {
+      const token = await generateScopedToken(
+        [{ id: 'k1', secret: 'secret' }],
+        300,
+        scope
+      );
+
+      expect(token.startsWith('k1.')).toBe(true);
+      await expect(
+        parseScopedToken(token, [{ id: 'k1', secret: 'secret' }])
+      ).resolves.toHaveProperty('kid', 'k1');
+    });
+  });
+
+  describe('asymmetric keys', () => {
+    async function makeKeys(
+      algorithm: SigningAlgorithm,
+      id = 'asym-1'
+    ): Promise<{ signing: AsymmetricKey; verifying: AsymmetricKey }> {
+      const { privateKey, publicKey } = await generateSigningKeyPair(algorithm);
+      return {
+        signing: { id, algorithm, privateKey, publicKey },
+        verifying: { id, algorithm, publicKey },
+      };
+    }
+
+    it('should generate JSON Web Key pairs', async () => {
+      const { privateKey, publicKey } = await generateSigningKeyPair();
+
+      expect(publicKey).toMatchObject({ kty: 'OKP', crv: 'Ed25519' });
+      expect(publicKey).not.toHaveProperty('d');
+      expect(privateKey).toHaveProperty('d');
+    });
+
+    it.each(['Ed25519', 'ECDSA-P256'] as const)(
+      'should verify %s tokens with only the public key',
+      async (algorithm) => {
+        const { signing, verifying } = await makeKeys(algorithm);
+
+        const token = await generateSignedToken([signing], 3600);
+        const signedToken = await signUnsignedToken('test-token', [signing]);
+
+        expect(token).toMatch(/^asym-1\.\d+\.[a-f0-9]+\.[a-f0-9]+$/);
+        await expect(
+          parseSignedToken(token, [verifying])
+        ).resolves.toMatchObject({ kid: 'asym-1' });
+        await expect(verifySignedToken(signedToken, [verifying])).resolves.toBe(
+          'test-token'
+        );
+      }
+    );
+
+    it('should reject tokens signed by another key pair', async () => {
+      const { signing } = await makeKeys('Ed25519');
+      const { verifying } = await makeKeys('Ed25519');
+      const token = await generateSignedToken([signing], 3600);
+
+      await expect(parseSignedToken(token, [verifying])).rejects.toThrow(
+        BadSignatureError
+      );
+    });
+
+    it('should reject tampered tokens', async () => {
+      const { signing, verifying } = await makeKeys('ECDSA-P256');
+      const token = await generateSignedToken([signing], 3600);
+      const [kid, exp, nonce, signature] = token.split('.');
+
+      await expect(
+        parseSignedToken(`${kid}.${Number(exp) + 60}.${nonce}.${signature}`, [
+          verifying,
+        ])
+      ).rejects.toThrow(BadSignatureError);
+      await expect(
+        parseSignedToken(`${kid}.${exp}.${nonce}.not-hex`, [verifying])
+      ).rejects.toThrow(BadSignatureError);
+    });
+
+    it('should not sign without a private key', async () => {
+      const { verifying } = await makeKeys('Ed25519');
+
+      await expect(generateSignedToken([verifying], 3600)).rejects.toThrow(
+        'Key "asym-1" has no private key and can only verify tokens.'
+      );
+    });
+
+    it('should accept CryptoKey objects', async () => {
+      const keyPair = (await crypto.subtle.generateKey(
+        { name: 'Ed25519' },
+        false,
+        ['sign', 'verify']
+      )) as CryptoKeyPair;
+      const key: AsymmetricKey = {
+        id: 'crypto-key',
+        algorithm: 'Ed25519',
+        privateKey: keyPair.privateKey,
+        publicKey: keyPair.publicKey,
+      };
+
+      const token = await generateSignedToken([key], 3600);
+
+      await expect(parseSignedToken(token, [key])).resolves.toHaveProperty(
+        'kid',
+        'crypto-key'
+      );
+    });
+
+    it('should verify tokens from retired secret keys in a mixed ring', async () => {
+      const { signing, verifying } = await makeKeys('Ed25519', 'asym-2');
+      const token = await generateSignedToken(
+        [{ id: 'hmac-1', secret: 'retired-secret' }],
+        3600
+      );
+
+      expect(
+        await parseSignedToken(token, [
+          verifying,
+          { id: 'hmac-1', secret: 'retired-secret' },
+        ])
+      ).toHaveProperty('kid', 'hmac-1');
+      expect(
+        await generateSignedToken(
+          [signing, { id: 'hmac-1', secret: 'retired-secret' }],
+          3600
+        )
+      ).toMatch(/^asym-2\./);
+    });
+
+    it('should refuse to encrypt tokens with asymmetric keys', async () => {
+      const { signing } = await makeKeys('Ed25519');
+
+      await expect(generateEncryptedToken([signing], 3600)).rejects.toThrow(
+        'Encrypted tokens require a secret key'
+      );
+    });
+  });
 });
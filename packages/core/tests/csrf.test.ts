@@ -1,11 +1,18 @@
-import { describe, expect, it, beforeEach } from 'vitest';
+import { describe, expect, it, beforeEach, vi } from 'vitest';
 import { CsrfProtection, createCsrfProtection } from '../src/csrf.js';
 import type {
   CsrfAdapter,
+  CsrfConfig,
   CsrfRequest,
   CsrfResponse,
   RequiredCsrfConfig,
 } from '../src';
+import {
+  CsrfConfigError,
+  generateSigningKeyPair,
+  MemorySessionStore,
+  MemoryTokenStore,
+} from '../src';
 
 // ---------------------------------------------------------------------------
 // Mock adapter
@@ -68,6 +75,53 @@ describe('createCsrfProtection', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Configuration validation
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – configuration validation', () => {
+  it('throws CsrfConfigError for an invalid configuration', () => {
+    expect(
+      () =>
+        new CsrfProtection(new MockAdapter(), {
+          secret: TEST_SECRET,
+          cookie: { sameSite: 'none', secure: false },
+        })
+    ).toThrow(CsrfConfigError);
+  });
+
+  it('passes configuration warnings to onConfigWarning', () => {
+    const onConfigWarning = vi.fn();
+
+    new CsrfProtection(new MockAdapter(), { secret: 'short', onConfigWarning });
+
+    expect(onConfigWarning).toHaveBeenCalledWith(
+      expect.objectContaining({ severity: 'warning', path: 'secret' })
+    );
+  });
+
+  it('does not log configuration warnings', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      new CsrfProtection(new MockAdapter(), { secret: 'short' });
+
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('throws for warnings in strict mode', () => {
+    expect(
+      () =>
+        new CsrfProtection(new MockAdapter(), {
+          secret: 'short',
+          strict: true,
+        })
+    ).toThrow(CsrfConfigError);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Safe HTTP methods (GET / HEAD / OPTIONS)
 // ---------------------------------------------------------------------------
@@ -149,6 +203,14 @@ describe('CsrfProtection – unsafe methods without token', () => {
     expect(result.reason).toBeDefined();
   });
 
+  it('reports a failure code alongside the reason', async () => {
+    const req = makeRequest({ method: 'POST' });
+    const result = await csrf.protect(req, {});
+
+    expect(result.code).toBe('MISSING_COOKIE');
+    expect(result.reason).toBe('No CSRF cookie found');
+  });
+
   it('PUT without token returns success=false', async () => {
     const req = makeRequest({ method: 'PUT' });
     const result = await csrf.protect(req, {});
@@ -334,6 +396,391 @@ describe('CsrfProtection – excludePaths path-segment boundaries', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// excludePaths patterns and includePaths
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – path patterns', () => {
+  it('excludes dynamic tenant paths matched by route parameters', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      excludePaths: ['/tenants/:id/callback'],
+    });
+
+    const excluded = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        url: 'http://localhost/tenants/42/callback',
+      }),
+      {}
+    );
+    const protectedResult = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        url: 'http://localhost/tenants/42/callback/extra',
+      }),
+      {}
+    );
+
+    expect(excluded.success).toBe(true);
+    expect(protectedResult.success).toBe(false);
+  });
+
+  it('excludes only the listed methods for method-specific rules', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      excludePaths: [{ path: '/api/telemetry', methods: ['POST'] }],
+    });
+
+    const post = await csrf.protect(
+      makeRequest({ method: 'POST', url: 'http://localhost/api/telemetry' }),
+      {}
+    );
+    const put = await csrf.protect(
+      makeRequest({ method: 'PUT', url: 'http://localhost/api/telemetry' }),
+      {}
+    );
+
+    expect(post.success).toBe(true);
+    expect(put.success).toBe(false);
+  });
+
+  it('only validates paths listed in includePaths', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      includePaths: ['/api/**'],
+      excludePaths: ['/api/public'],
+    });
+
+    const outside = await csrf.protect(
+      makeRequest({ method: 'POST', url: 'http://localhost/login' }),
+      {}
+    );
+    const inside = await csrf.protect(
+      makeRequest({ method: 'POST', url: 'http://localhost/api/orders' }),
+      {}
+    );
+    const excluded = await csrf.protect(
+      makeRequest({ method: 'POST', url: 'http://localhost/api/public' }),
+      {}
+    );
+
+    expect(outside.success).toBe(true);
+    expect(inside.success).toBe(false);
+    expect(excluded.success).toBe(true);
+  });
+
+  it('still issues tokens on safe requests outside includePaths', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      includePaths: ['/api/**'],
+    });
+
+    const result = await csrf.protect(
+      makeRequest({ method: 'GET', url: 'http://localhost/settings' }),
+      {}
+    );
+
+    expect(result.token).toBeDefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// skip and requireProtection hooks
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – skip and requireProtection', () => {
+  /** Skips requests authenticated only by a bearer token. */
+  const skipBearerOnly = (request: CsrfRequest): boolean => {
+    const headers = request.headers as Map<string, string>;
+    const cookies = request.cookies as Map<string, string>;
+    return (
+      headers.get('authorization')?.startsWith('Bearer ') === true &&
+      cookies.size === 0
+    );
+  };
+
+  it('skips protection and token issuance when skip returns true', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      skip: skipBearerOnly,
+    });
+    const headers = new Map([['authorization', 'Bearer abc']]);
+
+    const post = await csrf.protect(makeRequest({ method: 'POST', headers }), {
+      marker: 'original',
+    });
+    const get = await csrf.protect(makeRequest({ method: 'GET', headers }), {});
+
+    expect(post.success).toBe(true);
+    expect(post.response).toEqual({ marker: 'original' });
+    expect(get.token).toBeUndefined();
+  });
+
+  it('protects requests for which skip returns false', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      skip: skipBearerOnly,
+    });
+
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['authorization', 'Bearer abc']]),
+        cookies: new Map([['session', 'cookie-auth']]),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(false);
+  });
+
+  it('supports async predicates', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      skip: async () => true,
+    });
+
+    const result = await csrf.protect(makeRequest({ method: 'POST' }), {});
+    expect(result.success).toBe(true);
+  });
+
+  it('requireProtection overrides skip and static exclusions', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      excludePaths: ['/api'],
+      skip: () => true,
+      requireProtection: async (request) =>
+        (request.cookies as Map<string, string>).has('session'),
+    });
+
+    const withSession = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        cookies: new Map([['session', 'cookie-auth']]),
+      }),
+      {}
+    );
+    const withoutSession = await csrf.protect(
+      makeRequest({ method: 'POST' }),
+      {}
+    );
+
+    expect(withSession.success).toBe(false);
+    expect(withoutSession.success).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// lifecycle hooks
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – lifecycle hooks', () => {
+  const createHooks = () => ({
+    onTokenIssued: vi.fn(),
+    onTokenReused: vi.fn(),
+    onValidationSuccess: vi.fn(),
+    onValidationFailure: vi.fn(),
+    onSkipped: vi.fn(),
+  });
+
+  it('reports issuance, reuse and successful validation', async () => {
+    const hooks = createHooks();
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'signed-token',
+      ...hooks,
+    });
+
+    const first = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    const token = first.token ?? '';
+    const cookies = new Map([['csrf-token', token]]);
+    await csrf.protect(makeRequest({ method: 'GET', cookies }), {});
+    await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([
+          ['origin', 'http://localhost'],
+          ['x-csrf-token', token],
+        ]),
+        cookies,
+      }),
+      {}
+    );
+
+    expect(hooks.onTokenIssued).toHaveBeenCalledTimes(2);
+    expect(hooks.onTokenReused).toHaveBeenCalledTimes(1);
+    expect(hooks.onValidationSuccess).toHaveBeenCalledTimes(1);
+    expect(hooks.onValidationFailure).not.toHaveBeenCalled();
+    expect(hooks.onValidationSuccess).toHaveBeenCalledWith({
+      strategy: 'signed-token',
+      request: expect.objectContaining({
+        method: 'POST',
+        headers: new Map([
+          ['origin', 'http://localhost'],
+          ['x-csrf-token', '[REDACTED]'],
+        ]),
+        cookies: new Map([['csrf-token', '[REDACTED]']]),
+      }),
+    });
+  });
+
+  it('reports failures with the code, reason and redacted request', async () => {
+    const hooks = createHooks();
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: { all: ['origin-check', 'double-submit'] },
+      allowedOrigins: ['https://app.example.com'],
+      ...hooks,
+    });
+
+    await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([
+          ['origin', 'https://evil.example.com'],
+          ['x-csrf-token', 'forged'],
+        ]),
+        cookies: new Map([['csrf-token', 'real']]),
+      }),
+      {}
+    );
+
+    expect(hooks.onValidationFailure).toHaveBeenCalledTimes(1);
+    const event = hooks.onValidationFailure.mock.calls[0]?.[0];
+    expect(event).toMatchObject({
+      strategy: 'all(origin-check,double-submit)',
+      code: 'ORIGIN_MISMATCH',
+      failures: [
+        { strategy: 'origin-check', code: 'ORIGIN_MISMATCH' },
+        { strategy: 'double-submit', code: 'TOKEN_MISMATCH' },
+      ],
+    });
+    expect(event.reason).toContain('origin-check:');
+    expect(event.request.headers.get('x-csrf-token')).toBe('[REDACTED]');
+    expect(event.request.cookies.get('csrf-token')).toBe('[REDACTED]');
+    expect(hooks.onValidationSuccess).not.toHaveBeenCalled();
+  });
+
+  it('reports skipped requests without issuing tokens', async () => {
+    const hooks = createHooks();
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      excludePaths: ['/health'],
+      ...hooks,
+    });
+
+    await csrf.protect(
+      makeRequest({ method: 'POST', url: 'http://localhost/health' }),
+      {}
+    );
+
+    expect(hooks.onSkipped).toHaveBeenCalledTimes(1);
+    expect(hooks.onSkipped.mock.calls[0]?.[0].request.url).toBe(
+      'http://localhost/health'
+    );
+    expect(hooks.onTokenIssued).not.toHaveBeenCalled();
+  });
+
+  it('awaits hooks and propagates their errors', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      onTokenIssued: async () => {
+        throw new Error('audit log unavailable');
+      },
+    });
+
+    await expect(
+      csrf.protect(makeRequest({ method: 'GET' }), {})
+    ).rejects.toThrow('audit log unavailable');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// report-only mode
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – report-only mode', () => {
+  const getResponseHeaders = (result: {
+    response: Record<string, unknown>;
+  }): Map<string, string> =>
+    (result.response.csrfResponse as CsrfResponse).headers as Map<
+      string,
+      string
+    >;
+
+  it('lets failed requests through and reports the failure', async () => {
+    const onValidationFailure = vi.fn();
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      mode: 'report-only',
+      onValidationFailure,
+    });
+
+    const result = await csrf.protect(makeRequest({ method: 'POST' }), {});
+
+    expect(result).toMatchObject({
+      success: true,
+      code: 'MISSING_COOKIE',
+      reason: 'No CSRF cookie found',
+    });
+    expect(result.token).toBeDefined();
+    expect(getResponseHeaders(result).get('x-csrf-report')).toBe(
+      'MISSING_COOKIE'
+    );
+    expect(onValidationFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'report-only', code: 'MISSING_COOKIE' })
+    );
+  });
+
+  it('does not report valid requests', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      mode: 'report-only',
+    });
+
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', 'token']]),
+        cookies: new Map([['csrf-token', 'token']]),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.code).toBeUndefined();
+    expect(getResponseHeaders(result).has('x-csrf-report')).toBe(false);
+  });
+
+  it('blocks failed requests in enforce mode', async () => {
+    const onValidationFailure = vi.fn();
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      onValidationFailure,
+    });
+
+    const result = await csrf.protect(makeRequest({ method: 'POST' }), {});
+
+    expect(result.success).toBe(false);
+    expect(getResponseHeaders(result).has('x-csrf-report')).toBe(false);
+    expect(onValidationFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'enforce' })
+    );
+  });
+});
+
 // ---------------------------------------------------------------------------
 // skipContentTypes
 // ---------------------------------------------------------------------------
@@ -461,6 +908,19 @@ describe('CsrfProtection – token generation shapes', () => {
     expect(result.token).toMatch(/^[a-f0-9]+$/);
   });
 
+  it('fetch-metadata: generates a nonce token (no dots)', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'fetch-metadata',
+    });
+
+    const req = makeRequest({ method: 'GET' });
+    const result = await csrf.protect(req, {});
+
+    expect(result.success).toBe(true);
+    expect(result.token).toMatch(/^[a-f0-9]+$/);
+  });
+
   it('hybrid: generates a signed token (3 parts, same as signed-token)', async () => {
     const csrf = new CsrfProtection(new MockAdapter(), {
       secret: TEST_SECRET,
@@ -524,48 +984,1105 @@ describe('CsrfProtection – double-submit validation', () => {
 });
 
 // ---------------------------------------------------------------------------
-// origin-check strategy validation
+// Cookie prefixes
 // ---------------------------------------------------------------------------
 
-describe('CsrfProtection – origin-check validation', () => {
-  it('POST with an allowed origin succeeds', async () => {
+describe('CsrfProtection – cookie prefixes', () => {
+  function getCookies(result: { response: unknown }) {
+    const { csrfResponse } = result.response as {
+      csrfResponse: CsrfResponse;
+    };
+    return csrfResponse.cookies instanceof Map
+      ? csrfResponse.cookies
+      : new Map(Object.entries(csrfResponse.cookies));
+  }
+
+  it('prefixes the client and server cookies', async () => {
     const csrf = new CsrfProtection(new MockAdapter(), {
       secret: TEST_SECRET,
-      strategy: 'origin-check',
-      allowedOrigins: ['http://localhost:3000'],
+      strategy: 'signed-double-submit',
+      cookie: { prefix: '__Host-' },
     });
 
-    const req = makeRequest({
-      method: 'POST',
-      headers: new Map([['origin', 'http://localhost:3000']]),
-    });
-    const result = await csrf.protect(req, {});
+    const cookies = getCookies(
+      await csrf.protect(makeRequest({ method: 'GET' }), {})
+    );
 
-    expect(result.success).toBe(true);
+    expect([...cookies.keys()]).toEqual([
+      '__Host-csrf-token',
+      '__Host-csrf-token-server',
+    ]);
+    for (const { options } of cookies.values()) {
+      expect(options).toMatchObject({ secure: true, path: '/' });
+      expect(options?.domain).toBeUndefined();
+    }
   });
 
-  it('POST with a disallowed origin fails', async () => {
+  it('validates requests with prefixed cookies', async () => {
     const csrf = new CsrfProtection(new MockAdapter(), {
       secret: TEST_SECRET,
-      strategy: 'origin-check',
-      allowedOrigins: ['http://localhost:3000'],
-    });
-
-    const req = makeRequest({
-      method: 'POST',
-      headers: new Map([['origin', 'http://evil.example.com']]),
+      strategy: 'signed-double-submit',
+      cookie: { prefix: '__Host-' },
     });
-    const result = await csrf.protect(req, {});
+    const getResult = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    const cookies = getCookies(getResult);
+
+    const postResult = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', getResult.token!]]),
+        cookies: new Map(
+          [...cookies].map(([name, cookie]) => [name, cookie.value])
+        ),
+      }),
+      {}
+    );
+    const unprefixedResult = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', getResult.token!]]),
+        cookies: new Map(
+          [...cookies].map(([name, cookie]) => [
+            name.slice('__Host-'.length),
+            cookie.value,
+          ])
+        ),
+      }),
+      {}
+    );
 
-    expect(result.success).toBe(false);
-    expect(result.reason).toContain('not allowed');
+    expect(postResult.success).toBe(true);
+    expect(unprefixedResult.success).toBe(false);
+    expect(unprefixedResult.code).toBe('MISSING_COOKIE');
   });
 
-  it('POST with no origin header fails with missing origin reason', async () => {
+  it('does not prefix a name that already has the prefix', async () => {
     const csrf = new CsrfProtection(new MockAdapter(), {
       secret: TEST_SECRET,
-      strategy: 'origin-check',
-      allowedOrigins: ['http://localhost:3000'],
+      strategy: 'double-submit',
+      cookie: { name: '__Secure-csrf', prefix: '__Secure-' },
+    });
+
+    const cookies = getCookies(
+      await csrf.protect(makeRequest({ method: 'GET' }), {})
+    );
+
+    expect([...cookies.keys()]).toEqual(['__Secure-csrf']);
+  });
+
+  it('rejects attributes that browsers refuse for __Host- cookies', () => {
+    expect(
+      () =>
+        new CsrfProtection(new MockAdapter(), {
+          secret: TEST_SECRET,
+          cookie: { prefix: '__Host-', domain: 'example.com' },
+        })
+    ).toThrow(CsrfConfigError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Duplicate cookies
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – duplicate cookies', () => {
+  async function issueToken(
+    csrf: CsrfProtection<CsrfRequest, Record<string, unknown>>
+  ): Promise<string> {
+    const result = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    return result.token!;
+  }
+
+  function makeTossedRequest(token: string, planted: string): CsrfRequest {
+    return makeRequest({
+      method: 'POST',
+      headers: new Map([['x-csrf-token', token]]),
+      cookies: new Map([['csrf-token', planted]]),
+      cookieValues: new Map([['csrf-token', [token, planted]]]),
+    });
+  }
+
+  it('rejects requests with duplicate CSRF cookies by default', async () => {
+    const onValidationFailure = vi.fn();
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      onValidationFailure,
+    });
+    const token = await issueToken(csrf);
+
+    const result = await csrf.protect(makeTossedRequest(token, 'planted'), {});
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('DUPLICATE_COOKIE');
+    expect(result.reason).toBe('Multiple values for CSRF cookie: csrf-token');
+    expect(onValidationFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'DUPLICATE_COOKIE' })
+    );
+  });
+
+  it('ignores repeated identical values', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+    });
+    const token = await issueToken(csrf);
+
+    const result = await csrf.protect(makeTossedRequest(token, token), {});
+
+    expect(result.success).toBe(true);
+  });
+
+  it('selects a value with the first and last policies', async () => {
+    const first = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      duplicateCookiePolicy: 'first',
+    });
+    const last = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+      duplicateCookiePolicy: 'last',
+    });
+    const token = await issueToken(first);
+
+    const firstResult = await first.protect(
+      makeTossedRequest(token, 'planted'),
+      {}
+    );
+    const lastResult = await last.protect(
+      makeTossedRequest(token, 'planted'),
+      {}
+    );
+
+    expect(firstResult.success).toBe(true);
+    expect(lastResult.success).toBe(false);
+    expect(lastResult.code).toBe('TOKEN_MISMATCH');
+  });
+
+  it('issues a fresh token instead of reusing a duplicated cookie', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'signed-token',
+    });
+    const token = await issueToken(csrf);
+    const planted = await issueToken(csrf);
+
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'GET',
+        cookies: new Map([['csrf-token', planted]]),
+        cookieValues: new Map([['csrf-token', [token, planted]]]),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.token).not.toBe(token);
+    expect(result.token).not.toBe(planted);
+  });
+
+  it('ignores duplicates for tokenless strategies', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'origin-check',
+    });
+
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([
+          ['host', 'localhost'],
+          ['origin', 'http://localhost'],
+        ]),
+        cookieValues: new Map([['csrf-token', ['a', 'b']]]),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Token masking
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – token masking', () => {
+  function getCsrfResponse(result: { response: unknown }): CsrfResponse {
+    return (result.response as { csrfResponse: CsrfResponse }).csrfResponse;
+  }
+
+  function getCookieValues(result: { response: unknown }): Map<string, string> {
+    const cookies = getCsrfResponse(result).cookies as Map<
+      string,
+      { value: string }
+    >;
+    return new Map([...cookies].map(([name, { value }]) => [name, value]));
+  }
+
+  function makeMaskingCsrf(strategy: CsrfConfig['strategy']) {
+    return new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy,
+      token: { mask: true },
+    });
+  }
+
+  async function submit(
+    csrf: CsrfProtection<CsrfRequest, Record<string, unknown>>,
+    token: string,
+    cookies: Map<string, string>
+  ) {
+    return csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', token]]),
+        cookies,
+      }),
+      {}
+    );
+  }
+
+  it.each(['double-submit', 'signed-double-submit', 'signed-token'] as const)(
+    'accepts masked and unmasked tokens with %s',
+    async (strategy) => {
+      const csrf = makeMaskingCsrf(strategy);
+      const issued = await csrf.protect(makeRequest({ method: 'GET' }), {});
+      const cookies = getCookieValues(issued);
+      const cookieToken = cookies.get('csrf-token')!;
+
+      expect(issued.token).not.toBe(cookieToken);
+      expect((await submit(csrf, issued.token!, cookies)).success).toBe(true);
+      expect((await submit(csrf, cookieToken, cookies)).success).toBe(true);
+    }
+  );
+
+  it('masks a reused token differently on every response', async () => {
+    const csrf = makeMaskingCsrf('signed-double-submit');
+    const issued = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    const cookies = getCookieValues(issued);
+
+    const reissued = await csrf.protect(
+      makeRequest({ method: 'GET', cookies }),
+      {}
+    );
+
+    expect(reissued.token).not.toBe(issued.token);
+    const headers = getCsrfResponse(reissued).headers as Map<string, string>;
+    expect(headers.get('x-csrf-token')).toBe(reissued.token);
+    expect((await submit(csrf, reissued.token!, cookies)).success).toBe(true);
+  });
+
+  it('does not mask tokens by default', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'double-submit',
+    });
+    const result = await csrf.protect(makeRequest({ method: 'GET' }), {});
+
+    expect(result.token).toBe(getCookieValues(result).get('csrf-token'));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// encrypted-token strategy
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – encrypted-token', () => {
+  function makeTenantRequest(
+    method: string,
+    tenant: string,
+    token?: string
+  ): CsrfRequest {
+    return makeRequest({
+      method,
+      url: `http://localhost/tenants/${tenant}/orders`,
+      headers: new Map([
+        ['x-tenant', tenant],
+        ...(token ? [['x-csrf-token', token] as [string, string]] : []),
+      ]),
+      cookies: token ? new Map([['csrf-token', token]]) : new Map(),
+    });
+  }
+
+  function makeTenantCsrf() {
+    return new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'encrypted-token',
+      tokenClaims: (request) => ({
+        tenant: (request.headers as Map<string, string>).get('x-tenant'),
+      }),
+      validateClaims: (payload, request) =>
+        new URL(request.url).pathname.startsWith(
+          `/tenants/${payload.claims?.['tenant']}/`
+        ),
+    });
+  }
+
+  it('issues tokens that validate for the same tenant', async () => {
+    const csrf = makeTenantCsrf();
+    const issued = await csrf.protect(makeTenantRequest('GET', 'acme'), {});
+
+    const result = await csrf.protect(
+      makeTenantRequest('POST', 'acme', issued.token),
+      {}
+    );
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects tokens whose claims do not match the request', async () => {
+    const csrf = makeTenantCsrf();
+    const issued = await csrf.protect(makeTenantRequest('GET', 'acme'), {});
+
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        url: 'http://localhost/tenants/globex/orders',
+        headers: new Map([['x-csrf-token', issued.token!]]),
+        cookies: new Map([['csrf-token', issued.token!]]),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('INVALID_CLAIMS');
+  });
+
+  it('reuses tokens while their claims still fit the request', async () => {
+    const csrf = makeTenantCsrf();
+    const issued = await csrf.protect(makeTenantRequest('GET', 'acme'), {});
+
+    const sameTenant = await csrf.protect(
+      makeTenantRequest('GET', 'acme', issued.token),
+      {}
+    );
+    const otherTenant = await csrf.protect(
+      makeTenantRequest('GET', 'globex', issued.token),
+      {}
+    );
+
+    expect(sameTenant.token).toBe(issued.token);
+    expect(otherTenant.token).not.toBe(issued.token);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Single-use tokens
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – single-use tokens', () => {
+  function makePost(token: string): CsrfRequest {
+    return makeRequest({
+      method: 'POST',
+      headers: new Map([
+        ['origin', 'http://localhost'],
+        ['x-csrf-token', token],
+      ]),
+      cookies: new Map([['csrf-token', token]]),
+    });
+  }
+
+  it.each(['signed-token', 'encrypted-token', 'hybrid'] as const)(
+    'rejects replayed %s tokens and issues a fresh one',
+    async (strategy) => {
+      const csrf = new CsrfProtection(new MockAdapter(), {
+        secret: TEST_SECRET,
+        strategy,
+        token: { singleUse: true },
+      });
+      const issued = await csrf.protect(makeRequest({ method: 'GET' }), {});
+
+      const first = await csrf.protect(makePost(issued.token!), {});
+      const replay = await csrf.protect(makePost(issued.token!), {});
+
+      expect(first.success).toBe(true);
+      expect(first.token).toBeDefined();
+      expect(first.token).not.toBe(issued.token);
+      expect(replay.success).toBe(false);
+      expect(replay.code).toBe('TOKEN_REUSED');
+
+      const next = await csrf.protect(makePost(first.token!), {});
+      expect(next.success).toBe(true);
+    }
+  );
+
+  it('does not reuse a used token from the cookie', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'signed-token',
+      token: { singleUse: true },
+    });
+    const issued = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    await csrf.protect(makePost(issued.token!), {});
+
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'GET',
+        cookies: new Map([['csrf-token', issued.token!]]),
+      }),
+      {}
+    );
+
+    expect(result.token).not.toBe(issued.token);
+  });
+
+  it('shares used tokens through the configured store', async () => {
+    const tokenStore = new MemoryTokenStore();
+    const config: CsrfConfig = {
+      secret: TEST_SECRET,
+      strategy: 'signed-token',
+      token: { singleUse: true },
+      tokenStore,
+    };
+    const first = new CsrfProtection(new MockAdapter(), config);
+    const second = new CsrfProtection(new MockAdapter(), config);
+    const issued = await first.protect(makeRequest({ method: 'GET' }), {});
+
+    await first.protect(makePost(issued.token!), {});
+    const replay = await second.protect(makePost(issued.token!), {});
+
+    expect(replay.code).toBe('TOKEN_REUSED');
+    expect(tokenStore.size).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Synchronizer tokens
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – synchronizer', () => {
+  function getCookies(result: { response: unknown }) {
+    return (result.response as { csrfResponse: CsrfResponse }).csrfResponse
+      .cookies as Map<string, { value: string }>;
+  }
+
+  function makeCsrf(sessionStore = new MemorySessionStore()) {
+    return new CsrfProtection(new MockAdapter(), {
+      strategy: 'synchronizer',
+      sessionStore,
+      sessionIdentifier: (req) =>
+        (req.cookies as Map<string, string>).get('session-id') ?? '',
+    });
+  }
+
+  function sessionCookies(sessionId: string) {
+    return new Map([['session-id', sessionId]]);
+  }
+
+  it('stores tokens against the application session', async () => {
+    const sessionStore = new MemorySessionStore();
+    const csrf = makeCsrf(sessionStore);
+
+    const issued = await csrf.protect(
+      makeRequest({ method: 'GET', cookies: sessionCookies('session-1') }),
+      {}
+    );
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', issued.token!]]),
+        cookies: sessionCookies('session-1'),
+      }),
+      {}
+    );
+
+    expect(getCookies(issued)).toEqual(new Map());
+    expect(sessionStore.get('session-1')).toBe(issued.token);
+    expect(result.success).toBe(true);
+    expect(result.token).toBe(issued.token);
+  });
+
+  it('keeps one token per session', async () => {
+    const csrf = makeCsrf();
+    const request = makeRequest({
+      method: 'GET',
+      cookies: sessionCookies('session-1'),
+    });
+
+    const issued = await csrf.protect(request, {});
+    const reissued = await csrf.protect(request, {});
+
+    expect(reissued.token).toBe(issued.token);
+  });
+
+  it('rejects tokens issued to another session', async () => {
+    const csrf = makeCsrf();
+    await csrf.protect(
+      makeRequest({ method: 'GET', cookies: sessionCookies('victim') }),
+      {}
+    );
+    const attacker = await csrf.protect(
+      makeRequest({ method: 'GET', cookies: sessionCookies('attacker') }),
+      {}
+    );
+
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', attacker.token!]]),
+        cookies: sessionCookies('victim'),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('TOKEN_MISMATCH');
+  });
+
+  it('rejects a planted session cookie', async () => {
+    const csrf = makeCsrf();
+    const attacker = await csrf.protect(
+      makeRequest({ method: 'GET', cookies: sessionCookies('attacker') }),
+      {}
+    );
+
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', attacker.token!]]),
+        cookies: new Map([
+          ['session-id', 'victim'],
+          ['csrf-token', 'attacker'],
+        ]),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('TOKEN_MISMATCH');
+  });
+
+  it('requires a sessionIdentifier', () => {
+    expect(
+      () => new CsrfProtection(new MockAdapter(), { strategy: 'synchronizer' })
+    ).toThrow(CsrfConfigError);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Scoped tokens
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – scoped tokens', () => {
+  const sessionIdentifier = (req: CsrfRequest) =>
+    (req.cookies as Map<string, string>).get('session-id') ?? '';
+
+  function makeCsrf(config: CsrfConfig = {}) {
+    return new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'signed-token',
+      sessionIdentifier,
+      scopedPaths: [{ path: '/account/delete', methods: ['POST'] }],
+      ...config,
+    });
+  }
+
+  function makePost(url: string, token: string, sessionId = 'session-1') {
+    return makeRequest({
+      method: 'POST',
+      url,
+      headers: new Map([['x-csrf-token', token]]),
+      cookies: new Map([
+        ['session-id', sessionId],
+        ['csrf-token', token],
+      ]),
+    });
+  }
+
+  const session = makeRequest({
+    method: 'GET',
+    cookies: new Map([['session-id', 'session-1']]),
+  });
+
+  it('accepts a scoped token on its action', async () => {
+    const csrf = makeCsrf();
+    const token = await csrf.generateScopedToken(
+      { method: 'POST', path: '/account/delete' },
+      session
+    );
+
+    const result = await csrf.protect(
+      makePost('http://localhost/account/delete', token),
+      {}
+    );
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects the regular token on scoped paths', async () => {
+    const csrf = makeCsrf();
+    const issued = await csrf.protect(session, {});
+
+    const scoped = await csrf.protect(
+      makePost('http://localhost/account/delete', issued.token!),
+      {}
+    );
+    const regular = await csrf.protect(
+      makePost('http://localhost/account/email', issued.token!),
+      {}
+    );
+
+    expect(scoped.success).toBe(false);
+    expect(scoped.code).toBe('TOKEN_INVALID');
+    expect(regular.success).toBe(true);
+  });
+
+  it('rejects scoped tokens for another action or session', async () => {
+    const csrf = makeCsrf({
+      scopedPaths: ['/account/delete', '/account/close'],
+    });
+    const token = await csrf.generateScopedToken(
+      { method: 'POST', path: '/account/close' },
+      session
+    );
+
+    const otherAction = await csrf.protect(
+      makePost('http://localhost/account/delete', token),
+      {}
+    );
+    const otherSession = await csrf.protect(
+      makePost('http://localhost/account/close', token, 'session-2'),
+      {}
+    );
+
+    expect(otherAction.code).toBe('SCOPE_MISMATCH');
+    expect(otherSession.code).toBe('BAD_SIGNATURE');
+  });
+
+  it('rejects cross-origin requests with a valid scoped token', async () => {
+    const csrf = makeCsrf({ strategy: 'hybrid' });
+    const token = await csrf.generateScopedToken(
+      { method: 'POST', path: '/account/delete' },
+      session
+    );
+    const makeOriginPost = (origin: string) => {
+      const request = makePost('http://localhost/account/delete', token);
+      (request.headers as Map<string, string>).set('origin', origin);
+      return request;
+    };
+
+    const crossOrigin = await csrf.protect(
+      makeOriginPost('https://evil.test'),
+      {}
+    );
+    const sameOrigin = await csrf.protect(
+      makeOriginPost('http://localhost'),
+      {}
+    );
+
+    expect(crossOrigin.success).toBe(false);
+    expect(crossOrigin.code).toBe('ORIGIN_MISMATCH');
+    expect(sameOrigin.success).toBe(true);
+  });
+
+  it('applies the tokenless members of composite strategies', async () => {
+    const csrf = makeCsrf({
+      strategy: { all: ['fetch-metadata', 'signed-token'] },
+    });
+    const token = await csrf.generateScopedToken(
+      { method: 'POST', path: '/account/delete' },
+      session
+    );
+    const request = makePost('http://localhost/account/delete', token);
+    (request.headers as Map<string, string>).set(
+      'sec-fetch-site',
+      'cross-site'
+    );
+
+    const result = await csrf.protect(request, {});
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('CROSS_SITE_REQUEST');
+  });
+
+  it('applies the expiry of the scope', async () => {
+    vi.useFakeTimers();
+    try {
+      const csrf = makeCsrf();
+      const token = await csrf.generateScopedToken(
+        { method: 'POST', path: '/account/delete', expiry: 60 },
+        session
+      );
+
+      vi.advanceTimersByTime(120_000);
+      const result = await csrf.protect(
+        makePost('http://localhost/account/delete', token),
+        {}
+      );
+
+      expect(result.code).toBe('TOKEN_EXPIRED');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('requires a sessionIdentifier', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), { secret: TEST_SECRET });
+    const scoped = csrf.generateScopedToken(
+      { method: 'POST', path: '/account/delete' },
+      session
+    );
+
+    await expect(scoped).rejects.toThrow(CsrfConfigError);
+    await expect(scoped).rejects.toThrow(
+      'Scoped tokens require a sessionIdentifier'
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Two-phase validation
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – validate and attach', () => {
+  function makeCsrf(config: CsrfConfig = {}) {
+    return new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'signed-double-submit',
+      ...config,
+    });
+  }
+
+  it('applies issued tokens when attaching the response', async () => {
+    const csrf = makeCsrf();
+
+    const handle = await csrf.validate(makeRequest({ method: 'GET' }));
+    const response = handle.attach({ status: 200 });
+
+    expect(handle.success).toBe(true);
+    const csrfResponse = response.csrfResponse as CsrfResponse;
+    expect(
+      (csrfResponse.headers as Map<string, string>).get('x-csrf-token')
+    ).toBe(handle.token);
+    expect(response.status).toBe(200);
+  });
+
+  it('reports failures before the response exists', async () => {
+    const onValidationFailure = vi.fn();
+    const csrf = makeCsrf({ onValidationFailure });
+
+    const handle = await csrf.validate(makeRequest({ method: 'POST' }));
+
+    expect(handle.success).toBe(false);
+    expect(handle.code).toBe('MISSING_COOKIE');
+    expect(onValidationFailure).toHaveBeenCalledOnce();
+  });
+
+  it('leaves the response of skipped requests untouched', async () => {
+    const csrf = makeCsrf({ excludePaths: ['/api'] });
+
+    const handle = await csrf.validate(makeRequest({ method: 'POST' }));
+    const response = { status: 200 };
+
+    expect(handle.success).toBe(true);
+    expect(handle.attach(response)).toBe(response);
+  });
+
+  it('matches the result of protect', async () => {
+    const csrf = makeCsrf({ mode: 'report-only' });
+    const request = makeRequest({ method: 'POST' });
+
+    const { attach, ...handle } = await csrf.validate(request);
+    const { response, ...result } = await csrf.protect(request, {});
+
+    const reportHeader = (res: Record<string, unknown>) =>
+      ((res.csrfResponse as CsrfResponse).headers as Map<string, string>).get(
+        'x-csrf-report'
+      );
+    expect(handle).toEqual({ ...result, token: expect.any(String) });
+    expect(reportHeader(attach({}))).toBe('MISSING_COOKIE');
+    expect(reportHeader(response)).toBe('MISSING_COOKIE');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Standalone token APIs
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – generateToken and verify', () => {
+  function makeCsrf(config: CsrfConfig = {}) {
+    return new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'signed-double-submit',
+      ...config,
+    });
+  }
+
+  function makePost(token: string, cookies: Map<string, string>) {
+    return makeRequest({
+      method: 'POST',
+      headers: new Map([['x-csrf-token', token]]),
+      cookies,
+    });
+  }
+
+  function cookieValues(
+    cookies: Map<string, { value: string }>
+  ): Map<string, string> {
+    return new Map([...cookies].map(([name, { value }]) => [name, value]));
+  }
+
+  it('issues a token and its cookies without a request', async () => {
+    const csrf = makeCsrf();
+
+    const { token, cookies } = await csrf.generateToken();
+
+    expect(cookies.get('csrf-token')?.value).toBe(token);
+    expect(cookies.get('csrf-token-server')?.options.httpOnly).toBe(true);
+
+    const result = await csrf.verify(makePost(token, cookieValues(cookies)));
+    expect(result).toEqual({ isValid: true });
+  });
+
+  it('reuses a valid token from the request', async () => {
+    const csrf = makeCsrf();
+    const first = await csrf.generateToken();
+
+    const second = await csrf.generateToken(
+      makeRequest({ method: 'GET', cookies: cookieValues(first.cookies) })
+    );
+
+    expect(second.token).toBe(first.token);
+  });
+
+  it('masks generated tokens', async () => {
+    const csrf = makeCsrf({ token: { mask: true } });
+
+    const { token, cookies } = await csrf.generateToken();
+
+    expect(token).not.toBe(cookies.get('csrf-token')?.value);
+    expect(
+      (await csrf.verify(makePost(token, cookieValues(cookies)))).isValid
+    ).toBe(true);
+  });
+
+  it('validates any method and ignores exclusions and mode', async () => {
+    const onValidationFailure = vi.fn();
+    const csrf = makeCsrf({
+      mode: 'report-only',
+      excludePaths: ['/api'],
+      onValidationFailure,
+    });
+
+    const result = await csrf.verify(
+      makeRequest({ method: 'GET', url: 'http://localhost/api/data' })
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.code).toBe('MISSING_COOKIE');
+    expect(onValidationFailure).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'MISSING_COOKIE' })
+    );
+  });
+
+  it('does not consume single-use tokens when verifying', async () => {
+    const csrf = makeCsrf({
+      strategy: 'signed-token',
+      token: { singleUse: true },
+    });
+    const { token, cookies } = await csrf.generateToken();
+    const request = makePost(token, cookieValues(cookies));
+
+    expect((await csrf.verify(request)).isValid).toBe(true);
+    expect((await csrf.verify(request)).isValid).toBe(true);
+    expect((await csrf.protect(request, {})).success).toBe(true);
+
+    const replay = await csrf.verify(request);
+    expect(replay.code).toBe('TOKEN_REUSED');
+  });
+
+  it('does not issue tokens when verifying', async () => {
+    const onTokenIssued = vi.fn();
+    const csrf = makeCsrf({ onTokenIssued });
+    const { token, cookies } = await csrf.generateToken();
+    onTokenIssued.mockClear();
+
+    await csrf.verify(makePost(token, cookieValues(cookies)));
+
+    expect(onTokenIssued).not.toHaveBeenCalled();
+  });
+
+  it('cannot generate tokens on verify-only instances', async () => {
+    const { publicKey } = await generateSigningKeyPair();
+    const csrf = makeCsrf({
+      strategy: 'signed-token',
+      secret: [{ id: 'edge-1', algorithm: 'Ed25519', publicKey }],
+    });
+
+    await expect(csrf.generateToken()).rejects.toThrow(CsrfConfigError);
+    await expect(csrf.generateToken()).rejects.toThrow(
+      'can only verify tokens'
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Asymmetric signing
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – asymmetric signing', () => {
+  function getResponse(result: { response: unknown }): CsrfResponse {
+    return (result.response as { csrfResponse: CsrfResponse }).csrfResponse;
+  }
+
+  async function makeIssuerAndVerifier(strategy: CsrfConfig['strategy']) {
+    const { privateKey, publicKey } = await generateSigningKeyPair();
+    const issuer = new CsrfProtection(new MockAdapter(), {
+      strategy,
+      secret: [{ id: 'edge-1', algorithm: 'Ed25519', privateKey, publicKey }],
+    });
+    const verifier = new CsrfProtection(new MockAdapter(), {
+      strategy,
+      secret: [{ id: 'edge-1', algorithm: 'Ed25519', publicKey }],
+    });
+    return { issuer, verifier };
+  }
+
+  it.each(['signed-double-submit', 'signed-token'] as const)(
+    'verifies %s tokens with only the public key',
+    async (strategy) => {
+      const { issuer, verifier } = await makeIssuerAndVerifier(strategy);
+      const issued = await issuer.protect(makeRequest({ method: 'GET' }), {});
+      const cookies = getResponse(issued).cookies as Map<
+        string,
+        { value: string }
+      >;
+
+      const result = await verifier.protect(
+        makeRequest({
+          method: 'POST',
+          headers: new Map([['x-csrf-token', issued.token!]]),
+          cookies: new Map(
+            [...cookies].map(([name, { value }]) => [name, value])
+          ),
+        }),
+        {}
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.token).toBeUndefined();
+      expect(getResponse(result).cookies).toEqual(new Map());
+    }
+  );
+
+  it('does not issue tokens on verify-only instances', async () => {
+    const onTokenIssued = vi.fn();
+    const { publicKey } = await generateSigningKeyPair();
+    const verifier = new CsrfProtection(new MockAdapter(), {
+      strategy: 'signed-token',
+      secret: [{ id: 'edge-1', algorithm: 'Ed25519', publicKey }],
+      onTokenIssued,
+    });
+
+    const result = await verifier.protect(makeRequest({ method: 'GET' }), {});
+
+    expect(result.success).toBe(true);
+    expect(result.token).toBeUndefined();
+    expect(getResponse(result).headers).toEqual(
+      new Map([['x-csrf-strategy', 'signed-token']])
+    );
+    expect(onTokenIssued).not.toHaveBeenCalled();
+  });
+
+  it('keeps signed-double-submit cookies signed with the current ECDSA key', async () => {
+    const { privateKey, publicKey } =
+      await generateSigningKeyPair('ECDSA-P256');
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      strategy: 'signed-double-submit',
+      secret: [
+        { id: 'edge-1', algorithm: 'ECDSA-P256', privateKey, publicKey },
+      ],
+    });
+    const issued = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    const issuedCookies = getResponse(issued).cookies as Map<
+      string,
+      { value: string }
+    >;
+
+    const reused = await csrf.protect(
+      makeRequest({
+        method: 'GET',
+        cookies: new Map(
+          [...issuedCookies].map(([name, { value }]) => [name, value])
+        ),
+      }),
+      {}
+    );
+    const reusedCookies = getResponse(reused).cookies as Map<
+      string,
+      { value: string }
+    >;
+
+    expect(reused.token).toBe(issued.token);
+    expect(reusedCookies.get('csrf-token-server')?.value).toBe(
+      issuedCookies.get('csrf-token-server')?.value
+    );
+  });
+
+  it('rejects tokens signed with another key on verify-only instances', async () => {
+    const { issuer } = await makeIssuerAndVerifier('signed-token');
+    const { verifier } = await makeIssuerAndVerifier('signed-token');
+    const issued = await issuer.protect(makeRequest({ method: 'GET' }), {});
+
+    const result = await verifier.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', issued.token!]]),
+        cookies: new Map([['csrf-token', issued.token!]]),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('BAD_SIGNATURE');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// origin-check strategy validation
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – origin-check validation', () => {
+  it('POST with an allowed origin succeeds', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'origin-check',
+      allowedOrigins: ['http://localhost:3000'],
+    });
+
+    const req = makeRequest({
+      method: 'POST',
+      headers: new Map([['origin', 'http://localhost:3000']]),
+    });
+    const result = await csrf.protect(req, {});
+
+    expect(result.success).toBe(true);
+  });
+
+  it('POST with a disallowed origin fails', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'origin-check',
+      allowedOrigins: ['http://localhost:3000'],
+    });
+
+    const req = makeRequest({
+      method: 'POST',
+      headers: new Map([['origin', 'http://evil.example.com']]),
+    });
+    const result = await csrf.protect(req, {});
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toContain('not allowed');
+  });
+
+  it('POST with no origin header fails with missing origin reason', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'origin-check',
+      allowedOrigins: ['http://localhost:3000'],
     });
 
     const req = makeRequest({
@@ -578,3 +2095,263 @@ describe('CsrfProtection – origin-check validation', () => {
     expect(result.reason).toBeDefined();
   });
 });
+
+// ---------------------------------------------------------------------------
+// Secret rotation with key rings
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – secret rotation', () => {
+  const retiredKey = { id: 'k1', secret: 'retired-secret-for-csrf-tests' };
+  const currentKey = { id: 'k2', secret: 'current-secret-for-csrf-tests' };
+
+  function getResponseCookies(result: { response: unknown }) {
+    const csrfResponse = (result.response as Record<string, unknown>)
+      .csrfResponse as CsrfResponse;
+    return csrfResponse.cookies instanceof Map
+      ? csrfResponse.cookies
+      : new Map(Object.entries(csrfResponse.cookies));
+  }
+
+  it('signed-token: reuses a token signed with the current key', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: [currentKey, retiredKey],
+      strategy: 'signed-token',
+    });
+
+    const first = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    const second = await csrf.protect(
+      makeRequest({
+        method: 'GET',
+        cookies: new Map([['csrf-token', first.token!]]),
+      }),
+      {}
+    );
+
+    expect(first.token!.startsWith('k2.')).toBe(true);
+    expect(second.token).toBe(first.token);
+  });
+
+  it('signed-token: reissues a token signed with a retired key', async () => {
+    const before = new CsrfProtection(new MockAdapter(), {
+      secret: [retiredKey],
+      strategy: 'signed-token',
+    });
+    const after = new CsrfProtection(new MockAdapter(), {
+      secret: [currentKey, retiredKey],
+      strategy: 'signed-token',
+    });
+
+    const issued = await before.protect(makeRequest({ method: 'GET' }), {});
+    const reissued = await after.protect(
+      makeRequest({
+        method: 'GET',
+        cookies: new Map([['csrf-token', issued.token!]]),
+      }),
+      {}
+    );
+
+    expect(issued.token!.startsWith('k1.')).toBe(true);
+    expect(reissued.token!.startsWith('k2.')).toBe(true);
+  });
+
+  it('signed-token: still validates a token signed with a retired key', async () => {
+    const before = new CsrfProtection(new MockAdapter(), {
+      secret: [retiredKey],
+      strategy: 'signed-token',
+    });
+    const after = new CsrfProtection(new MockAdapter(), {
+      secret: [currentKey, retiredKey],
+      strategy: 'signed-token',
+    });
+
+    const issued = await before.protect(makeRequest({ method: 'GET' }), {});
+    const result = await after.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', issued.token!]]),
+        cookies: new Map([['csrf-token', issued.token!]]),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(true);
+  });
+
+  it('signed-double-submit: re-signs the server cookie with the current key', async () => {
+    const before = new CsrfProtection(new MockAdapter(), {
+      secret: [retiredKey],
+      strategy: 'signed-double-submit',
+    });
+    const after = new CsrfProtection(new MockAdapter(), {
+      secret: [currentKey, retiredKey],
+      strategy: 'signed-double-submit',
+    });
+
+    const issued = await before.protect(makeRequest({ method: 'GET' }), {});
+    const issuedServerCookie = getResponseCookies(issued).get(
+      'csrf-token-server'
+    )!;
+
+    const reissued = await after.protect(
+      makeRequest({
+        method: 'GET',
+        cookies: new Map([
+          ['csrf-token', issued.token!],
+          ['csrf-token-server', issuedServerCookie.value],
+        ]),
+      }),
+      {}
+    );
+    const reissuedServerCookie = getResponseCookies(reissued).get(
+      'csrf-token-server'
+    )!;
+
+    // The client token survives rotation so open forms keep working
+    expect(reissued.token).toBe(issued.token);
+    expect(issuedServerCookie.value.startsWith('k1.')).toBe(true);
+    expect(reissuedServerCookie.value.startsWith('k2.')).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Session-bound tokens
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – session binding', () => {
+  const sessionIdentifier = (req: CsrfRequest) =>
+    (req.cookies as Map<string, string>).get('session') ?? '';
+
+  it('signed-token: accepts a token issued to the same session', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'signed-token',
+      sessionIdentifier,
+    });
+
+    const issued = await csrf.protect(
+      makeRequest({ method: 'GET', cookies: new Map([['session', 'a']]) }),
+      {}
+    );
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', issued.token!]]),
+        cookies: new Map([
+          ['session', 'a'],
+          ['csrf-token', issued.token!],
+        ]),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(true);
+  });
+
+  it('signed-token: rejects a token issued to another session', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'signed-token',
+      sessionIdentifier,
+    });
+
+    const issued = await csrf.protect(
+      makeRequest({ method: 'GET', cookies: new Map([['session', 'a']]) }),
+      {}
+    );
+    const result = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', issued.token!]]),
+        cookies: new Map([
+          ['session', 'b'],
+          ['csrf-token', issued.token!],
+        ]),
+      }),
+      {}
+    );
+
+    expect(result.success).toBe(false);
+  });
+
+  it('signed-token: reissues instead of reusing a token from another session', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'signed-token',
+      sessionIdentifier,
+    });
+
+    const issued = await csrf.protect(
+      makeRequest({ method: 'GET', cookies: new Map([['session', 'a']]) }),
+      {}
+    );
+    const reissued = await csrf.protect(
+      makeRequest({
+        method: 'GET',
+        cookies: new Map([
+          ['session', 'b'],
+          ['csrf-token', issued.token!],
+        ]),
+      }),
+      {}
+    );
+
+    expect(reissued.token).not.toBe(issued.token);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetch-metadata strategy validation
+// ---------------------------------------------------------------------------
+
+describe('CsrfProtection – fetch-metadata validation', () => {
+  it('POST from the same origin succeeds without a token or cookie', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'fetch-metadata',
+    });
+
+    const req = makeRequest({
+      method: 'POST',
+      headers: new Map([['sec-fetch-site', 'same-origin']]),
+    });
+    const result = await csrf.protect(req, {});
+
+    expect(result.success).toBe(true);
+  });
+
+  it('POST from another site fails', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'fetch-metadata',
+      allowedOrigins: ['http://localhost:3000'],
+    });
+
+    const req = makeRequest({
+      method: 'POST',
+      headers: new Map([
+        ['sec-fetch-site', 'cross-site'],
+        ['origin', 'http://evil.example.com'],
+      ]),
+    });
+    const result = await csrf.protect(req, {});
+
+    expect(result.success).toBe(false);
+    expect(result.reason).toBe('Cross-site request blocked');
+  });
+
+  it('same-site POST succeeds when allowSameSite is enabled', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      secret: TEST_SECRET,
+      strategy: 'fetch-metadata',
+      fetchMetadata: { allowSameSite: true },
+    });
+
+    const req = makeRequest({
+      method: 'POST',
+      headers: new Map([['sec-fetch-site', 'same-site']]),
+    });
+    const result = await csrf.protect(req, {});
+
+    expect(result.success).toBe(true);
+  });
+});
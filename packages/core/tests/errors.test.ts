@@ -1,5 +1,26 @@
 import { describe, expect, it } from 'vitest';
-import { CsrfError, TokenExpiredError, TokenInvalidError, OriginMismatchError } from '../src';
+import {
+  BadSignatureError,
+  CookieIntegrityError,
+  CrossSiteRequestError,
+  CsrfConfigError,
+  CsrfError,
+  createCsrfError,
+  DuplicateCookieError,
+  InvalidClaimsError,
+  InvalidRefererError,
+  MissingCookieError,
+  MissingOriginError,
+  MissingTokenError,
+  NullOriginError,
+  OriginMismatchError,
+  ScopeMismatchError,
+  TokenExpiredError,
+  TokenInvalidError,
+  TokenMismatchError,
+  TokenReusedError,
+} from '../src';
+import type { CsrfFailureCode } from '../src';
 
 describe('CsrfError', () => {
   it('instantiates with message, code, and statusCode', () => {
@@ -100,3 +121,114 @@ describe('OriginMismatchError', () => {
     expect(err).toBeInstanceOf(Error);
   });
 });
+
+describe('BadSignatureError', () => {
+  it('has the correct message and code', () => {
+    const err = new BadSignatureError();
+    expect(err.message).toBe('CSRF token is invalid: Invalid signature');
+    expect(err.code).toBe('BAD_SIGNATURE');
+  });
+
+  it('is an instance of TokenInvalidError', () => {
+    const err = new BadSignatureError('Unknown key id');
+    expect(err).toBeInstanceOf(TokenInvalidError);
+    expect(err.message).toBe('CSRF token is invalid: Unknown key id');
+  });
+});
+
+describe('failure code errors', () => {
+  it.each([
+    ['MISSING_TOKEN', new MissingTokenError(), 'No CSRF token submitted'],
+    ['MISSING_COOKIE', new MissingCookieError(), 'No CSRF cookie found'],
+    ['TOKEN_MISMATCH', new TokenMismatchError(), 'Token mismatch'],
+    [
+      'COOKIE_INTEGRITY',
+      new CookieIntegrityError(),
+      'Cookie integrity check failed',
+    ],
+    [
+      'MISSING_ORIGIN',
+      new MissingOriginError(),
+      'Missing origin and referer headers',
+    ],
+    ['NULL_ORIGIN', new NullOriginError(), 'Null origin not allowed'],
+    ['INVALID_REFERER', new InvalidRefererError(), 'Malformed Referer header'],
+    [
+      'CROSS_SITE_REQUEST',
+      new CrossSiteRequestError(),
+      'Cross-site request blocked',
+    ],
+    [
+      'DUPLICATE_COOKIE',
+      new DuplicateCookieError(),
+      'Multiple CSRF cookies found',
+    ],
+    ['INVALID_CLAIMS', new InvalidClaimsError(), 'Token claims rejected'],
+    ['TOKEN_REUSED', new TokenReusedError(), 'Token has already been used'],
+    [
+      'SCOPE_MISMATCH',
+      new ScopeMismatchError(),
+      'Token scope does not match the request',
+    ],
+  ])('has the %s code and default message', (code, err, message) => {
+    expect(err).toBeInstanceOf(CsrfError);
+    expect(err.code).toBe(code);
+    expect(err.message).toBe(message);
+    expect(err.statusCode).toBe(403);
+  });
+});
+
+describe('createCsrfError', () => {
+  it.each([
+    ['MISSING_TOKEN', MissingTokenError],
+    ['MISSING_COOKIE', MissingCookieError],
+    ['TOKEN_MISMATCH', TokenMismatchError],
+    ['TOKEN_EXPIRED', TokenExpiredError],
+    ['TOKEN_INVALID', TokenInvalidError],
+    ['BAD_SIGNATURE', BadSignatureError],
+    ['COOKIE_INTEGRITY', CookieIntegrityError],
+    ['ORIGIN_MISMATCH', OriginMismatchError],
+    ['MISSING_ORIGIN', MissingOriginError],
+    ['NULL_ORIGIN', NullOriginError],
+    ['INVALID_REFERER', InvalidRefererError],
+    ['CROSS_SITE_REQUEST', CrossSiteRequestError],
+    ['DUPLICATE_COOKIE', DuplicateCookieError],
+    ['INVALID_CLAIMS', InvalidClaimsError],
+    ['TOKEN_REUSED', TokenReusedError],
+    ['SCOPE_MISMATCH', ScopeMismatchError],
+  ] as const)('creates the error class for %s', (code, ErrorClass) => {
+    const err = createCsrfError(code, 'Failure reason');
+    expect(err).toBeInstanceOf(ErrorClass);
+    expect(err.code).toBe(code);
+    expect(err.message).toBe('Failure reason');
+  });
+
+  it('falls back to CsrfError for VALIDATION_FAILED', () => {
+    const code: CsrfFailureCode = 'VALIDATION_FAILED';
+    const err = createCsrfError(code, 'Invalid strategy');
+    expect(err.constructor).toBe(CsrfError);
+    expect(err.code).toBe('VALIDATION_FAILED');
+    expect(err.message).toBe('Invalid strategy');
+  });
+});
+
+describe('CsrfConfigError', () => {
+  it('lists every issue in the message', () => {
+    const err = new CsrfConfigError([
+      { severity: 'error', path: 'cookie.sameSite', message: 'First' },
+      { severity: 'warning', path: 'secret', message: 'Second' },
+    ]);
+    expect(err.message).toBe(
+      'Invalid CSRF configuration:\n  - cookie.sameSite: First\n  - secret: Second'
+    );
+    expect(err.issues).toHaveLength(2);
+  });
+
+  it('has the correct code, name and statusCode', () => {
+    const err = new CsrfConfigError([]);
+    expect(err.code).toBe('CONFIGURATION_ERROR');
+    expect(err.name).toBe('CsrfConfigError');
+    expect(err.statusCode).toBe(500);
+    expect(err).toBeInstanceOf(CsrfError);
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest';
+import { getRequestOrigin, isOriginAllowed } from '../src';
+import type { CsrfRequest } from '../src';
+
+describe('isOriginAllowed', () => {
+  describe('exact origins', () => {
+    it('should match identical origins', () => {
+      expect(
+        isOriginAllowed('https://example.com', ['https://example.com'])
+      ).toBe(true);
+    });
+
+    it('should normalize case and default ports', () => {
+      expect(
+        isOriginAllowed('https://EXAMPLE.com', ['https://example.com:443'])
+      ).toBe(true);
+      expect(
+        isOriginAllowed('https://example.com:8443', ['https://example.com'])
+      ).toBe(false);
+    });
+
+    it('should enforce the scheme', () => {
+      expect(
+        isOriginAllowed('http://example.com', ['https://example.com'])
+      ).toBe(false);
+      expect(isOriginAllowed('https://example.com', ['example.com'])).toBe(
+        false
+      );
+    });
+
+    it('should reject unparseable origins', () => {
+      expect(isOriginAllowed('null', ['null'])).toBe(false);
+      expect(isOriginAllowed('', ['https://example.com'])).toBe(false);
+    });
+  });
+
+  describe('wildcard patterns', () => {
+    const patterns = ['https://*.example.com'];
+
+    it('should match a single subdomain label', () => {
+      expect(isOriginAllowed('https://app.example.com', patterns)).toBe(true);
+      expect(isOriginAllowed('https://a.b.example.com', patterns)).toBe(false);
+      expect(isOriginAllowed('https://example.com', patterns)).toBe(false);
+    });
+
+    it('should not be confused by look-alike domains', () => {
+      expect(isOriginAllowed('https://evil-example.com', patterns)).toBe(false);
+      expect(isOriginAllowed('https://evilexample.com', patterns)).toBe(false);
+      expect(
+        isOriginAllowed('https://app.example.com.evil.com', patterns)
+      ).toBe(false);
+    });
+
+    it('should enforce the scheme and default port', () => {
+      expect(isOriginAllowed('http://app.example.com', patterns)).toBe(false);
+      expect(isOriginAllowed('https://app.example.com:8443', patterns)).toBe(
+        false
+      );
+    });
+
+    it('should match any port with a port wildcard', () => {
+      expect(
+        isOriginAllowed('http://localhost:5173', ['http://localhost:*'])
+      ).toBe(true);
+      expect(isOriginAllowed('http://localhost', ['http://localhost:*'])).toBe(
+        true
+      );
+      expect(
+        isOriginAllowed('https://pr-1.example.com:4000', [
+          'https://*.example.com:*',
+        ])
+      ).toBe(true);
+    });
+
+    it('should ignore invalid patterns', () => {
+      for (const pattern of [
+        'https://*',
+        'https://*example.com',
+        'https://app.*.example.com',
+        '*.example.com',
+        'https://example.com/',
+      ]) {
+        expect(isOriginAllowed('https://app.example.com', [pattern])).toBe(
+          false
+        );
+      }
+    });
+  });
+
+  describe('RegExp and function matchers', () => {
+    it('should test regular expressions against the normalized origin', () => {
+      const matcher = /^https:\/\/pr-\d+\.preview\.example\.com$/g;
+
+      expect(
+        isOriginAllowed('https://pr-1.preview.example.com:443', [matcher])
+      ).toBe(true);
+      expect(
+        isOriginAllowed('https://pr-2.preview.example.com', [matcher])
+      ).toBe(true);
+      expect(
+        isOriginAllowed('https://pr-x.preview.example.com', [matcher])
+      ).toBe(false);
+    });
+
+    it('should require regular expressions to match the whole origin', () => {
+      const matcher = /https:\/\/app\.example\.com/;
+
+      expect(isOriginAllowed('https://app.example.com', [matcher])).toBe(true);
+      expect(
+        isOriginAllowed('https://app.example.com.evil.net', [matcher])
+      ).toBe(false);
+      expect(
+        isOriginAllowed('https://evil.net', [/example\.com|evil\.net/])
+      ).toBe(false);
+    });
+
+    it('should call predicates with the normalized origin', () => {
+      const seen: string[] = [];
+      const allowed = isOriginAllowed('https://APP.example.com:443', [
+        (origin) => {
+          seen.push(origin);
+          return origin.endsWith('.example.com');
+        },
+      ]);
+
+      expect(allowed).toBe(true);
+      expect(seen).toEqual(['https://app.example.com']);
+    });
+  });
+});
+
+describe('getRequestOrigin', () => {
+  function makeRequest(
+    headers: Record<string, string>,
+    overrides: Partial<CsrfRequest> = {}
+  ): CsrfRequest {
+    return {
+      method: 'POST',
+      url: '/api/data',
+      headers: new Map(Object.entries(headers)),
+      cookies: new Map(),
+      ...overrides,
+    };
+  }
+
+  it('should derive the origin from the Host header', () => {
+    expect(getRequestOrigin(makeRequest({ host: 'app.example.com' }), [])).toBe(
+      'http://app.example.com'
+    );
+    expect(
+      getRequestOrigin(
+        makeRequest({ host: 'app.example.com:443' }, { protocol: 'https' }),
+        []
+      )
+    ).toBe('https://app.example.com');
+  });
+
+  it('should prefer the :authority pseudo-header', () => {
+    expect(
+      getRequestOrigin(
+        makeRequest({ ':authority': 'app.example.com', host: 'other.com' }),
+        []
+      )
+    ).toBe('http://app.example.com');
+  });
+
+  it('should fall back to an absolute request URL', () => {
+    expect(
+      getRequestOrigin(
+        makeRequest({}, { url: 'https://app.example.com/api/data' }),
+        []
+      )
+    ).toBe('https://app.example.com');
+  });
+
+  it('should read Web API Headers', () => {
+    expect(
+      getRequestOrigin(
+        makeRequest({}, { headers: new Headers({ host: 'app.example.com' }) }),
+        []
+      )
+    ).toBe('http://app.example.com');
+  });
+
+  it('should only trust forwarded headers from trusted proxies', () => {
+    const forwarded = {
+      host: 'internal:3000',
+      'x-forwarded-host': 'app.example.com, proxy.internal',
+      'x-forwarded-proto': 'https',
+    };
+
+    expect(
+      getRequestOrigin(
+        makeRequest(forwarded, { remoteAddress: '::ffff:10.0.0.1' }),
+        ['10.0.0.1']
+      )
+    ).toBe('https://app.example.com');
+    expect(
+      getRequestOrigin(makeRequest(forwarded, { remoteAddress: '10.0.0.2' }), [
+        '10.0.0.1',
+      ])
+    ).toBe('http://internal:3000');
+    expect(getRequestOrigin(makeRequest(forwarded), ['10.0.0.1'])).toBe(
+      'http://internal:3000'
+    );
+    expect(getRequestOrigin(makeRequest(forwarded), ['*'])).toBe(
+      'https://app.example.com'
+    );
+  });
+
+  it('should reject hosts that smuggle another authority', () => {
+    expect(
+      getRequestOrigin(makeRequest({ host: 'evil.com/@app.example.com' }), [])
+    ).toBeNull();
+    expect(
+      getRequestOrigin(makeRequest({ host: 'evil.com@app.example.com' }), [])
+    ).toBeNull();
+  });
+
+  it('should reject unsupported protocols and missing hosts', () => {
+    expect(
+      getRequestOrigin(
+        makeRequest(
+          { host: 'internal', 'x-forwarded-proto': 'javascript' },
+          { remoteAddress: '10.0.0.1' }
+        ),
+        ['10.0.0.1']
+      )
+    ).toBeNull();
+    expect(getRequestOrigin(makeRequest({}), [])).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { matchesPath } from '../src';
+
+describe('matchesPath', () => {
+  describe('plain paths', () => {
+    it('should match the path and its descendants on segment boundaries', () => {
+      expect(matchesPath('/api', 'POST', ['/api'])).toBe(true);
+      expect(matchesPath('/api/v1', 'POST', ['/api'])).toBe(true);
+      expect(matchesPath('/api-public', 'POST', ['/api'])).toBe(false);
+    });
+
+    it('should only match descendants with a trailing slash', () => {
+      expect(matchesPath('/api', 'POST', ['/api/'])).toBe(false);
+      expect(matchesPath('/api/v1', 'POST', ['/api/'])).toBe(true);
+    });
+  });
+
+  describe('glob patterns', () => {
+    it('should match a single segment with *', () => {
+      const patterns = ['/api/*/webhook'];
+
+      expect(matchesPath('/api/stripe/webhook', 'POST', patterns)).toBe(true);
+      expect(matchesPath('/api/webhook', 'POST', patterns)).toBe(false);
+      expect(matchesPath('/api/a/b/webhook', 'POST', patterns)).toBe(false);
+      expect(matchesPath('/api/stripe/webhook/x', 'POST', patterns)).toBe(
+        false
+      );
+    });
+
+    it('should match part of a segment with *', () => {
+      expect(matchesPath('/files/report.json', 'POST', ['/files/*.json'])).toBe(
+        true
+      );
+      expect(matchesPath('/files/report.xml', 'POST', ['/files/*.json'])).toBe(
+        false
+      );
+    });
+
+    it('should match any number of segments with **', () => {
+      expect(matchesPath('/api', 'POST', ['/api/**'])).toBe(true);
+      expect(matchesPath('/api/a/b', 'POST', ['/api/**'])).toBe(true);
+      expect(matchesPath('/apis', 'POST', ['/api/**'])).toBe(false);
+      expect(matchesPath('/api/a/b/webhook', 'POST', ['/api/**/webhook'])).toBe(
+        true
+      );
+      expect(matchesPath('/api/webhook', 'POST', ['/api/**/webhook'])).toBe(
+        true
+      );
+    });
+
+    it('should treat other characters literally', () => {
+      expect(matchesPath('/v1.0/*', 'POST', ['/v1.0/*'])).toBe(true);
+      expect(matchesPath('/v1x0/a', 'POST', ['/v1.0/*'])).toBe(false);
+    });
+  });
+
+  describe('route parameters', () => {
+    it('should match one non-empty segment', () => {
+      const patterns = ['/tenants/:id/callback'];
+
+      expect(matchesPath('/tenants/42/callback', 'POST', patterns)).toBe(true);
+      expect(matchesPath('/tenants/42/callback/', 'POST', patterns)).toBe(true);
+      expect(matchesPath('/tenants//callback', 'POST', patterns)).toBe(false);
+      expect(matchesPath('/tenants/1/2/callback', 'POST', patterns)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('regular expressions', () => {
+    it('should test the pathname', () => {
+      const pattern = /^\/hooks\/[a-z]+$/g;
+
+      expect(matchesPath('/hooks/github', 'POST', [pattern])).toBe(true);
+      expect(matchesPath('/hooks/gitlab', 'POST', [pattern])).toBe(true);
+      expect(matchesPath('/hooks/42', 'POST', [pattern])).toBe(false);
+    });
+
+    it('should require a match of the whole pathname', () => {
+      const pattern = /\/hooks/;
+
+      expect(matchesPath('/hooks', 'POST', [pattern])).toBe(true);
+      expect(matchesPath('/api/hooks', 'POST', [pattern])).toBe(false);
+      expect(matchesPath('/hooks/github', 'POST', [pattern])).toBe(false);
+      expect(matchesPath('/hooks/github', 'POST', [/\/hooks(\/.*)?/])).toBe(
+        true
+      );
+    });
+  });
+
+  describe('method-specific rules', () => {
+    it('should only match the listed methods, case-insensitively', () => {
+      const rules = [{ path: '/api/telemetry', methods: ['post'] }];
+
+      expect(matchesPath('/api/telemetry', 'POST', rules)).toBe(true);
+      expect(matchesPath('/api/telemetry', 'PUT', rules)).toBe(false);
+    });
+
+    it('should match every method without methods', () => {
+      expect(
+        matchesPath('/tenants/1/callback', 'DELETE', [
+          { path: '/tenants/:id/callback' },
+        ])
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { REDACTED, redactRequest } from '../src';
+import type { CsrfRequest, RequiredCsrfConfig } from '../src';
+
+// redactRequest only reads the token options
+const config = {
+  token: {
+    expiry: 3600,
+    headerName: 'X-Custom-Token',
+    fieldName: 'authenticity_token',
+    reissueThreshold: 300,
+  },
+} as RequiredCsrfConfig;
+
+const makeRequest = (overrides: Partial<CsrfRequest> = {}): CsrfRequest => ({
+  method: 'POST',
+  url: '/transfer',
+  headers: {},
+  cookies: {},
+  ...overrides,
+});
+
+describe('redactRequest', () => {
+  it('should redact token and credential headers', () => {
+    const redacted = redactRequest(
+      makeRequest({
+        headers: new Headers({
+          'X-Custom-Token': 'token',
+          'x-csrf-token': 'token',
+          Authorization: 'Bearer secret',
+          Cookie: 'session=secret',
+          'User-Agent': 'curl/8.0',
+        }),
+      }),
+      config
+    );
+
+    expect(Object.fromEntries(redacted.headers as Map<string, string>)).toEqual(
+      {
+        'x-custom-token': REDACTED,
+        'x-csrf-token': REDACTED,
+        authorization: REDACTED,
+        cookie: REDACTED,
+        'user-agent': 'curl/8.0',
+      }
+    );
+  });
+
+  it('should redact every cookie value and keep the names', () => {
+    const redacted = redactRequest(
+      makeRequest({ cookies: { 'csrf-token': 'token', session: 'secret' } }),
+      config
+    );
+
+    expect(Object.fromEntries(redacted.cookies as Map<string, string>)).toEqual(
+      { 'csrf-token': REDACTED, session: REDACTED }
+    );
+  });
+
+  it('should redact every value of duplicated cookies', () => {
+    const redacted = redactRequest(
+      makeRequest({
+        cookies: { 'csrf-token': 'token' },
+        cookieValues: { 'csrf-token': ['token', 'planted'] },
+      }),
+      config
+    );
+
+    expect(redacted.cookieValues).toEqual(
+      new Map([['csrf-token', [REDACTED, REDACTED]]])
+    );
+  });
+
+  it('should redact the token query parameter', () => {
+    const redact = (url: string) =>
+      redactRequest(makeRequest({ url }), config).url;
+
+    expect(redact('/transfer?authenticity_token=abc&amount=5')).toBe(
+      '/transfer?authenticity_token=%5BREDACTED%5D&amount=5'
+    );
+    expect(redact('https://app.example.com/transfer?amount=5')).toBe(
+      'https://app.example.com/transfer?amount=5'
+    );
+  });
+
+  it('should keep plain object bodies without the token field', () => {
+    const body = { authenticity_token: 'abc', amount: 5 };
+    const redacted = redactRequest(makeRequest({ body }), config);
+
+    expect(redacted.body).toEqual({ authenticity_token: REDACTED, amount: 5 });
+    expect(body.authenticity_token).toBe('abc');
+  });
+
+  it('should omit bodies the token cannot be removed from', () => {
+    const redacted = redactRequest(
+      makeRequest({ body: 'authenticity_token=abc&amount=5' }),
+      config
+    );
+
+    expect(redacted).not.toHaveProperty('body');
+  });
+
+  it('should keep the connection details', () => {
+    const redacted = redactRequest(
+      makeRequest({ remoteAddress: '10.0.0.1', protocol: 'https' }),
+      config
+    );
+
+    expect(redacted).toMatchObject({
+      method: 'POST',
+      url: '/transfer',
+      remoteAddress: '10.0.0.1',
+      protocol: 'https',
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  MemorySessionStore,
+  MemoryTokenStore,
+  RedisSessionStore,
+  RedisTokenStore,
+} from '../src';
+import type { RedisCommandClient } from '../src';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('MemoryTokenStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should mark a nonce as used only once', () => {
+    const store = new MemoryTokenStore();
+
+    expect(store.isUsed('nonce-1')).toBe(false);
+    expect(store.markUsed('nonce-1', now() + 60)).toBe(true);
+    expect(store.markUsed('nonce-1', now() + 60)).toBe(false);
+    expect(store.isUsed('nonce-1')).toBe(true);
+  });
+
+  it('should forget nonces once their tokens expire', () => {
+    vi.useFakeTimers();
+    const store = new MemoryTokenStore();
+    store.markUsed('nonce-1', now() + 60);
+    store.markUsed('nonce-2', now() + 600);
+
+    vi.advanceTimersByTime(120_000);
+    store.purgeExpired();
+
+    expect(store.size).toBe(1);
+    expect(store.isUsed('nonce-1')).toBe(false);
+    expect(store.isUsed('nonce-2')).toBe(true);
+  });
+
+  it('should evict the least recently used nonce when full', () => {
+    const store = new MemoryTokenStore({ maxSize: 2 });
+    store.markUsed('nonce-1', now() + 60);
+    store.markUsed('nonce-2', now() + 60);
+    store.isUsed('nonce-1');
+
+    store.markUsed('nonce-3', now() + 60);
+
+    expect(store.size).toBe(2);
+    expect(store.isUsed('nonce-1')).toBe(true);
+    expect(store.isUsed('nonce-2')).toBe(false);
+    expect(store.isUsed('nonce-3')).toBe(true);
+  });
+
+  it('should purge expired nonces before evicting', () => {
+    vi.useFakeTimers();
+    const store = new MemoryTokenStore({ maxSize: 2 });
+    store.markUsed('nonce-1', now() + 600);
+    store.markUsed('nonce-2', now() + 60);
+
+    vi.advanceTimersByTime(120_000);
+    store.markUsed('nonce-3', now() + 60);
+
+    expect(store.isUsed('nonce-1')).toBe(true);
+    expect(store.isUsed('nonce-3')).toBe(true);
+  });
+});
+
+// Mimics the GET / SET [NX] / EXISTS / DEL semantics of a Redis server
+function createClient() {
+  const keys = new Map<string, string>();
+  const client = {
+    sendCommand: vi.fn(async (args: string[]): Promise<unknown> => {
+      const [command, key = ''] = args;
+      switch (command) {
+        case 'GET':
+          return keys.get(key) ?? null;
+        case 'SET':
+          if (args.includes('NX') && keys.has(key)) {
+            return null;
+          }
+          keys.set(key, args[2] ?? '');
+          return 'OK';
+        case 'EXISTS':
+          return keys.has(key) ? 1 : 0;
+        case 'DEL':
+          return keys.delete(key) ? 1 : 0;
+        default:
+          throw new Error(`Unexpected command ${command}`);
+      }
+    }),
+  } satisfies RedisCommandClient;
+  return client;
+}
+
+describe('RedisTokenStore', () => {
+  it('should mark a nonce with SET NX and an expiry', async () => {
+    const client = createClient();
+    const store = new RedisTokenStore(client);
+
+    expect(await store.markUsed('nonce-1', now() + 60)).toBe(true);
+    expect(await store.markUsed('nonce-1', now() + 60)).toBe(false);
+
+    const [args] = client.sendCommand.mock.calls[0] ?? [];
+    expect(args?.slice(0, 4)).toEqual(['SET', 'csrf:used:nonce-1', '1', 'EX']);
+    expect(Number(args?.[4])).toBeGreaterThan(55);
+    expect(args?.[5]).toBe('NX');
+  });
+
+  it('should check nonces with EXISTS', async () => {
+    const client = createClient();
+    const store = new RedisTokenStore(client, { keyPrefix: 'app:csrf:' });
+    await store.markUsed('nonce-1', now() + 60);
+
+    expect(await store.isUsed('nonce-1')).toBe(true);
+    expect(await store.isUsed('nonce-2')).toBe(false);
+    expect(client.sendCommand).toHaveBeenLastCalledWith([
+      'EXISTS',
+      'app:csrf:nonce-2',
+    ]);
+  });
+
+  it('should use an expiry of at least one second', async () => {
+    const client = createClient();
+    const store = new RedisTokenStore(client);
+
+    await store.markUsed('nonce-1', now() - 10);
+
+    expect(client.sendCommand.mock.calls[0]?.[0]?.[4]).toBe('1');
+  });
+
+  it('should leave purging to the server', async () => {
+    const client = createClient();
+    const store = new RedisTokenStore(client);
+
+    await store.purgeExpired();
+
+    expect(client.sendCommand).not.toHaveBeenCalled();
+  });
+});
+
+describe('MemorySessionStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should store, replace and delete session tokens', () => {
+    const store = new MemorySessionStore();
+
+    store.set('session-1', 'token-1', 60);
+    expect(store.get('session-1')).toBe('token-1');
+
+    store.set('session-1', 'token-2', 60);
+    expect(store.get('session-1')).toBe('token-2');
+
+    store.delete('session-1');
+    expect(store.get('session-1')).toBeUndefined();
+  });
+
+  it('should expire tokens after their ttl', () => {
+    vi.useFakeTimers();
+    const store = new MemorySessionStore();
+    store.set('session-1', 'token-1', 60);
+
+    vi.advanceTimersByTime(120_000);
+
+    expect(store.get('session-1')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('should evict the least recently used session when full', () => {
+    const store = new MemorySessionStore({ maxSize: 2 });
+    store.set('session-1', 'token-1', 60);
+    store.set('session-2', 'token-2', 60);
+    store.get('session-1');
+
+    store.set('session-3', 'token-3', 60);
+
+    expect(store.size).toBe(2);
+    expect(store.get('session-1')).toBe('token-1');
+    expect(store.get('session-2')).toBeUndefined();
+  });
+});
+
+describe('RedisSessionStore', () => {
+  it('should store tokens with SET EX', async () => {
+    const client = createClient();
+    const store = new RedisSessionStore(client);
+
+    await store.set('session-1', 'token-1', 3600);
+
+    expect(client.sendCommand).toHaveBeenCalledWith([
+      'SET',
+      'csrf:session:session-1',
+      'token-1',
+      'EX',
+      '3600',
+    ]);
+    expect(await store.get('session-1')).toBe('token-1');
+  });
+
+  it('should return undefined for unknown sessions', async () => {
+    const store = new RedisSessionStore(createClient(), {
+      keyPrefix: 'app:csrf:',
+    });
+
+    expect(await store.get('session-1')).toBeUndefined();
+  });
+
+  it('should delete tokens with DEL', async () => {
+    const client = createClient();
+    const store = new RedisSessionStore(client);
+    await store.set('session-1', 'token-1', 3600);
+
+    await store.delete('session-1');
+
+    expect(client.sendCommand).toHaveBeenLastCalledWith([
+      'DEL',
+      'csrf:session:session-1',
+    ]);
+    expect(await store.get('session-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,520 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUILT_IN_STRATEGIES,
+  CsrfConfigError,
+  CsrfProtection,
+  formatStrategy,
+  generateSignedToken,
+  OriginMismatchError,
+  resolveStrategy,
+  validateRequest,
+} from '../src';
+import type {
+  CsrfAdapter,
+  CsrfRequest,
+  CsrfResponse,
+  RequiredCsrfConfig,
+  StrategyDefinition,
+} from '../src';
+
+class MockAdapter implements CsrfAdapter<CsrfRequest, Record<string, unknown>> {
+  extractRequest(req: CsrfRequest): CsrfRequest {
+    return req;
+  }
+
+  applyResponse(
+    res: Record<string, unknown>,
+    csrfResponse: CsrfResponse
+  ): Record<string, unknown> {
+    return { ...res, csrfResponse };
+  }
+
+  async getTokenFromRequest(
+    req: CsrfRequest,
+    config: RequiredCsrfConfig
+  ): Promise<string | undefined> {
+    const headers =
+      req.headers instanceof Map
+        ? req.headers
+        : new Map(Object.entries(req.headers));
+    return headers.get(config.token.headerName.toLowerCase());
+  }
+}
+
+const TEST_CONFIG: RequiredCsrfConfig = {
+  strategy: 'double-submit',
+  mode: 'enforce',
+  secret: 'test-secret-32-characters-long-123',
+  token: {
+    expiry: 3600,
+    reissueThreshold: 500,
+    headerName: 'X-CSRF-Token',
+    fieldName: 'csrf_token',
+    mask: false,
+    singleUse: false,
+  },
+  cookie: {
+    name: 'csrf-token',
+    secure: true,
+    httpOnly: false,
+    sameSite: 'lax',
+    path: '/',
+  },
+  duplicateCookiePolicy: 'reject',
+  allowedOrigins: [],
+  sameOrigin: true,
+  nullOriginPolicy: 'reject',
+  strictReferer: true,
+  trustedProxies: [],
+  fetchMetadata: {
+    allowSameSite: false,
+  },
+  excludePaths: [],
+  includePaths: [],
+  skipContentTypes: [],
+  scopedPaths: [],
+};
+
+/** A strategy that accepts requests carrying a fixed device header. */
+const deviceBound: StrategyDefinition = {
+  issue: (_request, config) => ({
+    clientToken: 'device-token',
+    cookieToken: 'device-token',
+    cookieOptions: config.cookie,
+  }),
+  validate: async (request, extractToken, config) => {
+    const token = await extractToken(request, config);
+    return token === 'device-token'
+      ? { isValid: true }
+      : { isValid: false, reason: 'Device mismatch' };
+  },
+};
+
+function makeRequest(
+  overrides: Partial<CsrfRequest> & { method: string }
+): CsrfRequest {
+  return {
+    url: 'http://localhost/api/data',
+    headers: new Map(),
+    cookies: new Map(),
+    ...overrides,
+  };
+}
+
+describe('BUILT_IN_STRATEGIES', () => {
+  it('defines every built-in strategy', () => {
+    expect(Object.keys(BUILT_IN_STRATEGIES).sort()).toEqual([
+      'double-submit',
+      'encrypted-token',
+      'fetch-metadata',
+      'hybrid',
+      'origin-check',
+      'signed-double-submit',
+      'signed-token',
+      'synchronizer',
+    ]);
+  });
+});
+
+describe('resolveStrategy', () => {
+  it('resolves built-in strategies by name', () => {
+    expect(resolveStrategy(TEST_CONFIG)).toBe(
+      BUILT_IN_STRATEGIES['double-submit']
+    );
+  });
+
+  it('resolves registered strategies by name', () => {
+    const config = {
+      ...TEST_CONFIG,
+      strategy: 'device-bound',
+      strategies: { 'device-bound': deviceBound },
+    };
+    expect(resolveStrategy(config)).toBe(deviceBound);
+  });
+
+  it('prefers registered strategies over built-ins with the same name', () => {
+    const config = {
+      ...TEST_CONFIG,
+      strategies: { 'double-submit': deviceBound },
+    };
+    expect(resolveStrategy(config)).toBe(deviceBound);
+  });
+
+  it('returns undefined for unknown and inherited names', () => {
+    expect(
+      resolveStrategy({ ...TEST_CONFIG, strategy: 'unknown' })
+    ).toBeUndefined();
+    expect(
+      resolveStrategy({ ...TEST_CONFIG, strategy: 'toString' })
+    ).toBeUndefined();
+  });
+});
+
+describe('validateRequest with registered strategies', () => {
+  it('delegates to the registered strategy', async () => {
+    const config = {
+      ...TEST_CONFIG,
+      strategy: 'device-bound',
+      strategies: { 'device-bound': deviceBound },
+    };
+
+    const valid = await validateRequest(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', 'device-token']]),
+      }),
+      config,
+      new MockAdapter().getTokenFromRequest
+    );
+    const invalid = await validateRequest(
+      makeRequest({ method: 'POST' }),
+      config,
+      new MockAdapter().getTokenFromRequest
+    );
+
+    expect(valid.isValid).toBe(true);
+    expect(invalid).toEqual({ isValid: false, reason: 'Device mismatch' });
+  });
+});
+
+describe('CsrfProtection with registered strategies', () => {
+  it('issues tokens through the registered strategy', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      strategy: 'device-bound',
+      strategies: { 'device-bound': deviceBound },
+    });
+
+    const result = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    const csrfResponse = result.response.csrfResponse as CsrfResponse;
+    const headers = csrfResponse.headers as Map<string, string>;
+
+    expect(result.token).toBe('device-token');
+    expect(headers.get('x-csrf-strategy')).toBe('device-bound');
+  });
+
+  it('validates through the registered strategy', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      strategy: 'device-bound',
+      strategies: { 'device-bound': deviceBound },
+    });
+
+    const accepted = await csrf.protect(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['x-csrf-token', 'device-token']]),
+      }),
+      {}
+    );
+    const rejected = await csrf.protect(makeRequest({ method: 'POST' }), {});
+
+    expect(accepted.success).toBe(true);
+    expect(rejected.success).toBe(false);
+    expect(rejected.reason).toBe('Device mismatch');
+  });
+
+  it('reuses tokens returned by the reuse hook on safe requests', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      strategy: 'device-bound',
+      strategies: {
+        'device-bound': {
+          ...deviceBound,
+          reuse: (_request, config) => ({
+            clientToken: 'reused-token',
+            cookieToken: 'reused-token',
+            cookieOptions: config.cookie,
+          }),
+        },
+      },
+    });
+
+    const result = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    expect(result.token).toBe('reused-token');
+  });
+
+  it('issues new tokens when the reuse hook throws', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      strategy: 'device-bound',
+      strategies: {
+        'device-bound': {
+          ...deviceBound,
+          reuse: () => {
+            throw new Error('corrupt cookie');
+          },
+        },
+      },
+    });
+
+    const result = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    expect(result.token).toBe('device-token');
+  });
+
+  it('rejects an unknown strategy at construction', () => {
+    expect(
+      () => new CsrfProtection(new MockAdapter(), { strategy: 'missing' })
+    ).toThrow(CsrfConfigError);
+  });
+});
+
+describe('formatStrategy', () => {
+  it('formats names and nested compositions', () => {
+    expect(formatStrategy('signed-token')).toBe('signed-token');
+    expect(
+      formatStrategy({
+        all: ['origin-check', { any: ['fetch-metadata', 'signed-token'] }],
+      })
+    ).toBe('all(origin-check,any(fetch-metadata,signed-token))');
+  });
+});
+
+describe('composite strategies', () => {
+  const extract = new MockAdapter().getTokenFromRequest;
+
+  it('requires every member to pass with all', async () => {
+    const config = {
+      ...TEST_CONFIG,
+      strategy: { all: ['origin-check', 'double-submit'] },
+      allowedOrigins: ['https://app.example.com'],
+    };
+
+    const valid = await validateRequest(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([
+          ['origin', 'https://app.example.com'],
+          ['x-csrf-token', 'abc'],
+        ]),
+        cookies: new Map([['csrf-token', 'abc']]),
+      }),
+      config,
+      extract
+    );
+    const invalid = await validateRequest(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([
+          ['origin', 'https://evil.example.com'],
+          ['x-csrf-token', 'abc'],
+        ]),
+        cookies: new Map([['csrf-token', 'abc']]),
+      }),
+      config,
+      extract
+    );
+
+    expect(valid.isValid).toBe(true);
+    expect(invalid.isValid).toBe(false);
+    expect(invalid.failures).toEqual([
+      {
+        strategy: 'origin-check',
+        reason: new OriginMismatchError('https://evil.example.com').message,
+        code: 'ORIGIN_MISMATCH',
+      },
+    ]);
+  });
+
+  it('accepts when any member passes and aggregates failures otherwise', async () => {
+    const config = {
+      ...TEST_CONFIG,
+      strategy: { any: ['fetch-metadata', 'double-submit'] },
+    };
+
+    const sameOrigin = await validateRequest(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['sec-fetch-site', 'same-origin']]),
+      }),
+      config,
+      extract
+    );
+    const crossSite = await validateRequest(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([['sec-fetch-site', 'cross-site']]),
+      }),
+      config,
+      extract
+    );
+
+    expect(sameOrigin.isValid).toBe(true);
+    expect(crossSite).toEqual({
+      isValid: false,
+      code: 'CROSS_SITE_REQUEST',
+      reason:
+        'fetch-metadata: Cross-site request blocked; double-submit: No CSRF cookie found',
+      failures: [
+        {
+          strategy: 'fetch-metadata',
+          reason: 'Cross-site request blocked',
+          code: 'CROSS_SITE_REQUEST',
+        },
+        {
+          strategy: 'double-submit',
+          reason: 'No CSRF cookie found',
+          code: 'MISSING_COOKIE',
+        },
+      ],
+    });
+  });
+
+  it('supports registered and nested members', async () => {
+    const config = {
+      ...TEST_CONFIG,
+      strategy: { all: [{ any: ['fetch-metadata', 'device-bound'] }] },
+      strategies: { 'device-bound': deviceBound },
+    };
+
+    const result = await validateRequest(
+      makeRequest({
+        method: 'POST',
+        headers: new Map([
+          ['sec-fetch-site', 'cross-site'],
+          ['x-csrf-token', 'device-token'],
+        ]),
+      }),
+      config,
+      extract
+    );
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it('rejects compositions with unknown members or no members', async () => {
+    expect(
+      resolveStrategy({ ...TEST_CONFIG, strategy: { all: ['missing'] } })
+    ).toBeUndefined();
+    expect(
+      resolveStrategy({ ...TEST_CONFIG, strategy: { any: [] } })
+    ).toBeUndefined();
+
+    const result = await validateRequest(
+      makeRequest({ method: 'POST' }),
+      { ...TEST_CONFIG, strategy: { all: [] } },
+      extract
+    );
+    expect(result).toEqual({
+      isValid: false,
+      code: 'VALIDATION_FAILED',
+      reason: 'Invalid strategy',
+    });
+  });
+
+  it('rejects compositions where more than one member carries tokens', () => {
+    expect(
+      resolveStrategy({
+        ...TEST_CONFIG,
+        strategy: { any: ['signed-token', 'double-submit'] },
+      })
+    ).toBeUndefined();
+    expect(
+      () =>
+        new CsrfProtection(new MockAdapter(), {
+          secret: TEST_CONFIG.secret,
+          strategy: { any: ['signed-token', 'double-submit'] },
+        })
+    ).toThrow('at most one token-based strategy');
+  });
+
+  it('issues and reuses tokens from the token-based member', async () => {
+    const csrf = new CsrfProtection(new MockAdapter(), {
+      strategy: { all: ['origin-check', 'signed-token'] },
+      secret: 'test-secret-32-characters-long-123',
+    });
+
+    const first = await csrf.protect(makeRequest({ method: 'GET' }), {});
+    const csrfResponse = first.response.csrfResponse as CsrfResponse;
+    const headers = csrfResponse.headers as Map<string, string>;
+
+    expect(first.token?.split('.')).toHaveLength(3);
+    expect(headers.get('x-csrf-strategy')).toBe(
+      'all(origin-check,signed-token)'
+    );
+
+    const second = await csrf.protect(
+      makeRequest({
+        method: 'GET',
+        cookies: new Map([['csrf-token', first.token ?? '']]),
+      }),
+      {}
+    );
+    expect(second.token).toBe(first.token);
+  });
+});
+
+describe('null origin fallback to token', () => {
+  const extract = new MockAdapter().getTokenFromRequest;
+  const config = {
+    ...TEST_CONFIG,
+    nullOriginPolicy: 'fallback-to-token' as const,
+  };
+
+  it('lets hybrid accept a null origin with a valid signed token', async () => {
+    const token = await generateSignedToken(config.secret, 3600);
+    const request = makeRequest({
+      method: 'POST',
+      headers: new Map([
+        ['origin', 'null'],
+        ['x-csrf-token', token],
+      ]),
+      cookies: new Map([['csrf-token', token]]),
+    });
+
+    const accepted = await validateRequest(
+      request,
+      { ...config, strategy: 'hybrid' },
+      extract
+    );
+    const rejected = await validateRequest(
+      request,
+      { ...TEST_CONFIG, strategy: 'hybrid' },
+      extract
+    );
+
+    expect(accepted.isValid).toBe(true);
+    expect(rejected).toEqual({
+      isValid: false,
+      code: 'NULL_ORIGIN',
+      reason: 'Null origin not allowed',
+    });
+  });
+
+  it('still rejects a null origin without a valid token', async () => {
+    const result = await validateRequest(
+      makeRequest({ method: 'POST', headers: new Map([['origin', 'null']]) }),
+      { ...config, strategy: 'hybrid' },
+      extract
+    );
+    expect(result).toEqual({
+      isValid: false,
+      code: 'MISSING_TOKEN',
+      reason: 'No CSRF token provided',
+    });
+  });
+
+  it('defers to the token-based member of an all composite', async () => {
+    const composite = {
+      ...config,
+      strategy: { all: ['origin-check', 'double-submit'] },
+    };
+    const request = makeRequest({
+      method: 'POST',
+      headers: new Map([
+        ['origin', 'null'],
+        ['x-csrf-token', 'abc'],
+      ]),
+      cookies: new Map([['csrf-token', 'abc']]),
+    });
+
+    expect((await validateRequest(request, composite, extract)).isValid).toBe(
+      true
+    );
+    expect(
+      (
+        await validateRequest(
+          request,
+          { ...composite, strategy: { all: ['origin-check'] } },
+          extract
+        )
+      ).isValid
+    ).toBe(false);
+  });
+});
@@ -1,9 +1,10 @@
-import type {
-  CookieOptions,
-  CsrfAdapter,
-  CsrfRequest,
-  CsrfResponse,
-  RequiredCsrfConfig,
+import {
+  type CookieOptions,
+  type CsrfAdapter,
+  type CsrfRequest,
+  type CsrfResponse,
+  parseCookieHeader,
+  type RequiredCsrfConfig,
 } from '@csrf-armor/core';
 import type express from 'express';
 
@@ -63,17 +64,28 @@ export class ExpressAdapter
       });
     }
 
+    // Forwarded headers are only honoured by core, for the configured
+    // trusted proxies, so the connection itself is reported here.
+    const socket = req.socket as
+      | (express.Request['socket'] & { encrypted?: boolean })
+      | undefined;
+
     return {
       method: req.method,
       url: req.url,
       headers,
+      // Cookie names are case-sensitive, e.g. the `__Host-` prefix
       cookies: new Map(
         Object.entries(req.cookies ?? {}).map(([key, value]) => [
-          key.toLowerCase(),
+          key,
           String(value),
         ])
       ),
+      // cookie-parser keeps one value per name; duplicates need the raw header
+      cookieValues: parseCookieHeader(req.headers?.cookie),
       body: req.body,
+      protocol: socket?.encrypted ? 'https' : 'http',
+      ...(socket?.remoteAddress ? { remoteAddress: socket.remoteAddress } : {}),
     };
   }
 
@@ -1,6 +1,6 @@
 import {
   type CsrfConfig,
-  CsrfError,
+  createCsrfError,
   createCsrfProtection,
 } from '@csrf-armor/core';
 import type express from 'express';
@@ -18,6 +18,8 @@ export type { ExpressAdapter };
  * **Behavior:**
  * - For safe methods (GET, HEAD, OPTIONS): Generates and sets CSRF tokens, calls `next()`
  * - For state-changing methods: Validates CSRF tokens, calls `next()` on success or throws on failure
+ * - In `mode: 'report-only'`: Failed validation calls `next()` instead of throwing; the failure is
+ *   reported through `onValidationFailure` and the `x-csrf-report` response header
  * - Attaches `req.csrfToken` property containing the current CSRF token for use in views/responses
  * - Respects `excludePaths` configuration to skip protection for specified routes
  * - Handles multiple token sources: headers, cookies, query parameters, and request body
@@ -32,7 +34,9 @@ export type { ExpressAdapter };
  * @param config - Optional CSRF protection configuration (uses secure defaults if not provided)
  * @returns Express middleware function that validates CSRF tokens and manages token lifecycle
  *
- * @throws {CsrfError} If CSRF token validation fails, with code `'CSRF_VERIFICATION_ERROR'`
+ * @throws {CsrfError} If CSRF token validation fails. The error is the subclass
+ * for the failure, e.g. `TokenExpiredError`, and `error.code` is the failure code
+ * (`'MISSING_TOKEN'`, `'TOKEN_EXPIRED'`, `'ORIGIN_MISMATCH'`, ...)
  *
  * @example
  * ```typescript
@@ -67,8 +71,8 @@ export type { ExpressAdapter };
  *
  * // Error handling
  * app.use((err, req, res, next) => {
- *   if (err.code === 'CSRF_VERIFICATION_ERROR') {
- *     res.status(403).json({ error: 'CSRF token validation failed' });
+ *   if (err instanceof CsrfError) {
+ *     res.status(err.statusCode).json({ error: err.message, code: err.code });
  *   } else {
  *     next(err);
  *   }
@@ -119,9 +123,9 @@ export function csrfMiddleware(
       req.csrfToken = result.token ?? undefined;
       next();
     } else {
-      throw new CsrfError(
-        result.reason ?? 'CSRF: Token validation failed.',
-        'CSRF_VERIFICATION_ERROR'
+      throw createCsrfError(
+        result.code ?? 'VALIDATION_FAILED',
+        result.reason ?? 'CSRF: Token validation failed.'
       );
     }
   };
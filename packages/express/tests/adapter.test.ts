@@ -79,6 +79,50 @@ describe('ExpressAdapter', () => {
       expect(cookies.get('session-id')).toBe('test-session');
     });
 
+    it('should preserve every value of duplicated cookies', () => {
+      const mockRequest = {
+        method: 'POST',
+        url: '/api/data',
+        headers: { cookie: 'csrf-token=mine; csrf-token=planted' },
+        cookies: { 'csrf-token': 'mine' },
+      } as unknown as Request;
+
+      const result = adapter.extractRequest(mockRequest);
+
+      expect(result.cookieValues).toEqual(
+        new Map([['csrf-token', ['mine', 'planted']]])
+      );
+    });
+
+    it('should preserve the case of cookie names', () => {
+      const mockRequest = {
+        method: 'POST',
+        url: '/api/data',
+        headers: {},
+        cookies: { '__Host-csrf-token': 'test-token' },
+      } as unknown as Request;
+
+      const result = adapter.extractRequest(mockRequest);
+
+      const cookies = result.cookies as Map<string, string>;
+      expect(cookies.get('__Host-csrf-token')).toBe('test-token');
+    });
+
+    it('should report the peer address and connection protocol', () => {
+      const mockRequest = {
+        method: 'POST',
+        url: '/api/data',
+        headers: { host: 'internal:3000', 'x-forwarded-proto': 'https' },
+        cookies: {},
+        socket: { remoteAddress: '10.0.0.1', encrypted: false },
+      } as unknown as Request;
+
+      const result = adapter.extractRequest(mockRequest);
+
+      expect(result.remoteAddress).toBe('10.0.0.1');
+      expect(result.protocol).toBe('http');
+    });
+
     it('should handle missing cookies and body', () => {
       const mockRequest = {
         method: 'GET',
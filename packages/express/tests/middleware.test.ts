@@ -1,4 +1,4 @@
-import { CsrfError } from '@csrf-armor/core';
+import { CsrfError, MissingCookieError } from '@csrf-armor/core';
 import type { Request, Response } from 'express';
 import '../src/types.js';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
@@ -335,6 +335,48 @@ describe('CSRF Middleware', () => {
       expect(mockNext).not.toHaveBeenCalledWith(expect.any(Error));
     });
 
+    it('should respect the skip and requireProtection hooks', async () => {
+      const makeReq = (headers: Record<string, string>, cookies = {}) =>
+        ({
+          method: 'POST',
+          url: '/api/data',
+          headers,
+          cookies,
+          body: {},
+        }) as unknown as Request;
+      const mockRes = {
+        setHeader: vi.fn(),
+        cookie: vi.fn(),
+      } as unknown as Response;
+
+      const middleware = csrfMiddleware({
+        secret: 'test-secret-key-32-chars-long-good',
+        strategy: 'signed-double-submit',
+        skip: (req) =>
+          (req.headers as Map<string, string>)
+            .get('authorization')
+            ?.startsWith('Bearer ') === true,
+        requireProtection: (req) =>
+          (req.cookies as Map<string, string>).has('session'),
+      });
+
+      await middleware(
+        makeReq({ authorization: 'Bearer abc' }),
+        mockRes,
+        mockNext
+      );
+      expect(mockNext).toHaveBeenCalledTimes(1);
+
+      await expect(
+        middleware(
+          makeReq({ authorization: 'Bearer abc' }, { session: 'abc' }),
+          mockRes,
+          mockNext
+        )
+      ).rejects.toThrow(CsrfError);
+      expect(mockNext).toHaveBeenCalledTimes(1);
+    });
+
     it('should use custom token fieldName and cookie name in full request cycle', async () => {
       const cookieName = 'csrf-token';
       const fieldName = 'xsrf';
@@ -409,6 +451,53 @@ describe('CSRF Middleware', () => {
       expect(mockNext).toHaveBeenCalled();
       expect(mockNext).not.toHaveBeenCalledWith(expect.any(Error));
     });
+
+    it('should set __Host- prefixed client and server cookies', async () => {
+      const getReq = {
+        method: 'GET',
+        url: '/api/data',
+        headers: {},
+        cookies: {},
+        get: vi.fn(),
+        header: vi.fn(),
+        accepts: vi.fn(),
+        acceptsCharsets: vi.fn(),
+        acceptsEncodings: vi.fn(),
+        acceptsLanguages: vi.fn(),
+        param: vi.fn(),
+        is: vi.fn(),
+        app: {},
+        route: {},
+      } as unknown as Request;
+
+      const getRes = {
+        setHeader: vi.fn(),
+        cookie: vi.fn(),
+      } as unknown as Response;
+
+      const middleware = csrfMiddleware({
+        secret: 'test-secret-key-32-chars-long-good',
+        cookie: { prefix: '__Host-' },
+      });
+
+      await middleware(getReq, getRes, mockNext);
+
+      const hostCookieOptions = expect.objectContaining({
+        secure: true,
+        path: '/',
+        domain: undefined,
+      });
+      expect(getRes.cookie).toHaveBeenCalledWith(
+        '__Host-csrf-token',
+        expect.any(String),
+        hostCookieOptions
+      );
+      expect(getRes.cookie).toHaveBeenCalledWith(
+        '__Host-csrf-token-server',
+        expect.any(String),
+        hostCookieOptions
+      );
+    });
   });
 
   describe('Origin Check Strategy', () => {
@@ -590,6 +679,45 @@ describe('CSRF Middleware', () => {
       await expect(middleware(req, res, mockNext)).rejects.toThrow(CsrfError);
       expect(mockNext).not.toHaveBeenCalled();
     });
+
+    it('should let failed requests through in report-only mode', async () => {
+      const middleware = csrfMiddleware({
+        secret: 'test-secret-key-32-chars-long-good',
+        strategy: 'signed-double-submit',
+        mode: 'report-only',
+      });
+
+      const req = createMockReq('POST');
+      const res = createMockRes();
+      await middleware(req, res, mockNext);
+
+      expect(mockNext).toHaveBeenCalledTimes(1);
+      expect(res.setHeader).toHaveBeenCalledWith(
+        'x-csrf-report',
+        'MISSING_COOKIE'
+      );
+    });
+
+    it('should throw the error matching the failure code', async () => {
+      const middleware = csrfMiddleware({
+        secret: 'test-secret-key-32-chars-long-good',
+        strategy: 'signed-double-submit',
+      });
+
+      const req = createMockReq('POST', {
+        cookies: { 'csrf-token': 'invalid' },
+      } as Partial<Request>);
+      const res = createMockRes();
+
+      await expect(middleware(req, res, mockNext)).rejects.toMatchObject({
+        code: 'MISSING_COOKIE',
+        message: 'Missing CSRF cookies',
+        statusCode: 403,
+      });
+      await expect(middleware(req, res, mockNext)).rejects.toBeInstanceOf(
+        MissingCookieError
+      );
+    });
   });
 
   describe('Signed-token strategy', () => {
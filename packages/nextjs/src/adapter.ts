@@ -1,9 +1,10 @@
-import type {
-  CookieOptions,
-  CsrfAdapter,
-  CsrfRequest,
-  CsrfResponse,
-  RequiredCsrfConfig,
+import {
+  type CookieOptions,
+  type CsrfAdapter,
+  type CsrfRequest,
+  type CsrfResponse,
+  parseCookieHeader,
+  type RequiredCsrfConfig,
 } from '@csrf-armor/core';
 import type { NextRequest, NextResponse } from 'next/server';
 
@@ -25,6 +26,8 @@ export class NextjsAdapter implements CsrfAdapter<NextRequest, NextResponse> {
       url: req.url,
       headers: req.headers,
       cookies,
+      // req.cookies keeps one value per name; duplicates need the raw header
+      cookieValues: parseCookieHeader(req.headers.get('cookie')),
       body: req,
     };
   }
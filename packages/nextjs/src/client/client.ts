@@ -10,23 +10,42 @@
 export interface CsrfClientConfig {
   /** Name of the cookie containing the CSRF token (default: 'csrf-token') */
   cookieName?: string;
+  /**
+   * Cookie name prefix configured on the server with `cookie.prefix`, e.g.
+   * `'__Host-'` (default: none)
+   */
+  cookiePrefix?: '__Host-' | '__Secure-';
   /** Name of the header to send the CSRF token in (default: 'x-csrf-token') */
   headerName?: string;
-  /** Initial token value if available (not commonly used) */
+  /**
+   * Token rendered server-side, used when neither the CSRF cookie nor a
+   * `csrf-token` meta tag holds one. Required for strategies that set no
+   * readable cookie, such as `synchronizer`.
+   */
   initialToken?: string;
   /** Endpoint to use for token refresh (default: current pathname) */
   refreshEndpoint?: string;
 }
 
+/** Returns the full CSRF cookie name, including any cookie prefix. */
+function getCookieName(config?: CsrfClientConfig): string {
+  const name = config?.cookieName ?? 'csrf-token';
+  const prefix = config?.cookiePrefix;
+  return prefix && !name.startsWith(prefix) ? `${prefix}${name}` : name;
+}
+
 /**
  * Retrieves the current CSRF token from client-side storage.
  *
  * Attempts to find the CSRF token in the following order:
- * 1. HTTP-only cookie (primary source for most strategies)
- * 2. Meta tag fallback (for server-side rendered pages)
+ * 1. The client-readable CSRF cookie (set by most strategies)
+ * 2. A `<meta name="csrf-token">` tag rendered server-side
+ * 3. `config.initialToken`
  *
- * The token retrieval is optimized for client-side access while maintaining
- * security through HTTP-only cookies where possible.
+ * The `synchronizer` strategy sets no CSRF cookie, so its token must be
+ * rendered server-side from `result.token` (or `generateToken()`) into the
+ * meta tag or `initialToken`; otherwise this returns null.
+ * `refreshCsrfToken` also reads it from the `x-csrf-token` response header.
  *
  * @param config - Optional configuration for cookie and header names
  * @returns The CSRF token string, or null if not found or not in browser
@@ -41,6 +60,9 @@ export interface CsrfClientConfig {
  *   cookieName: 'my-csrf-cookie'
  * });
  *
+ * // Server configured with cookie: { prefix: '__Host-' }
+ * const token = getCsrfToken({ cookiePrefix: '__Host-' });
+ *
  * if (token) {
  *   // Use token in requests
  *   fetch('/api/data', {
@@ -52,7 +74,7 @@ export interface CsrfClientConfig {
 export function getCsrfToken(config?: CsrfClientConfig): string | null {
   if (typeof window === 'undefined') return null;
 
-  const cookieName = config?.cookieName ?? 'csrf-token';
+  const cookieName = getCookieName(config);
 
   // Always read from the client-accessible cookie
   // The server ensures this contains the correct token for the strategy
@@ -68,9 +90,9 @@ export function getCsrfToken(config?: CsrfClientConfig): string | null {
     }
   }
 
-  // Fallback to meta tag
+  // Fallback to meta tag, then to a token rendered server-side
   const metaTag = document.querySelector('meta[name="csrf-token"]');
-  return metaTag?.getAttribute('content') ?? null;
+  return metaTag?.getAttribute('content') ?? config?.initialToken ?? null;
 }
 
 /**
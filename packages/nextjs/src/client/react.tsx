@@ -35,6 +35,17 @@ interface CsrfContextValue {
 
 const CsrfContext = createContext<CsrfContextValue | null>(null);
 
+/**
+ * Returns `config` with `token` as the `initialToken` fallback, so a token
+ * that no cookie holds, e.g. with the `synchronizer` strategy, is kept.
+ */
+function withTokenFallback(
+  config: CsrfClientConfig | undefined,
+  token: string | null
+): CsrfClientConfig | undefined {
+  return token ? { ...config, initialToken: token } : config;
+}
+
 /**
  * React context provider for CSRF token management.
  *
@@ -129,14 +140,13 @@ export function CsrfProvider({
   const pathname = usePathname();
 
   const updateToken = useCallback(() => {
-    const newToken = getCsrfToken(config);
-    setCsrfToken((prev) => (prev !== newToken ? newToken : prev));
+    setCsrfToken((prev) => getCsrfToken(withTokenFallback(config, prev)));
   }, [config]);
 
   const refreshToken = useCallback(async () => {
     setTimeout(async () => {
       const newToken = await refreshCsrfToken(config);
-      setCsrfToken((prev) => (prev !== newToken ? newToken : prev));
+      setCsrfToken((prev) => newToken ?? prev);
     }, 50);
   }, [config]);
 
@@ -163,7 +173,11 @@ export function CsrfProvider({
   // Enhanced fetch that automatically updates token from response headers
   const secureFetch = useCallback(
     async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
-      const response = await csrfFetch(input, init, config);
+      const response = await csrfFetch(
+        input,
+        init,
+        withTokenFallback(config, csrfToken)
+      );
 
       // Check if server sent a new token
       const headerName = config?.headerName ?? 'x-csrf-token';
@@ -175,7 +189,7 @@ export function CsrfProvider({
 
       return response;
     },
-    [config]
+    [config, csrfToken]
   );
 
   const value = useMemo<CsrfContextValue>(
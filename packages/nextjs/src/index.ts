@@ -4,6 +4,7 @@ export type {
   CsrfConfig,
   CsrfProtectResult,
   CsrfStrategy,
+  CsrfValidationHandle,
   TokenOptions,
   ValidationResult,
 } from '@csrf-armor/core';
@@ -14,4 +15,4 @@ export {
   signUnsignedToken,
   verifySignedToken,
 } from '@csrf-armor/core';
-export { createCsrfMiddleware } from './middleware.js';
+export { createCsrfMiddleware, createCsrfValidator } from './middleware.js';
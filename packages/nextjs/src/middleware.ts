@@ -1,5 +1,9 @@
 import type { NextRequest, NextResponse } from 'next/server';
-import type { CsrfConfig } from '@csrf-armor/core';
+import type {
+  CsrfConfig,
+  CsrfFailureCode,
+  CsrfValidationHandle,
+} from '@csrf-armor/core';
 import { createCsrfProtection } from '@csrf-armor/core';
 import { NextjsAdapter } from './adapter.js';
 
@@ -68,25 +72,17 @@ import { NextjsAdapter } from './adapter.js';
  * });
  *
  * export async function POST(request: NextRequest) {
- *   const response = new NextResponse();
- *
- *   try {
- *     const result = await csrf(request, response);
- *     if (!result.success) {
- *       return NextResponse.json(
- *         { error: result.reason },
- *         { status: 403 }
- *       );
- *     }
- *
- *     // Process the request
- *     return NextResponse.json({ message: 'Success' });
- *   } catch (error) {
+ *   const result = await csrf(request, new NextResponse());
+ *   if (!result.success) {
  *     return NextResponse.json(
- *       { error: 'CSRF validation failed' },
+ *       { error: result.reason, code: result.code },
  *       { status: 403 }
  *     );
  *   }
+ *
+ *   // Process the request; see createCsrfValidator() to apply the CSRF
+ *   // cookies to the response created here
+ *   return NextResponse.json({ message: 'Success' });
  * }
  * ```
  *
@@ -116,6 +112,7 @@ export function createCsrfMiddleware(config?: CsrfConfig): (
   response: NextResponse;
   token?: string;
   reason?: string;
+  code?: CsrfFailureCode;
 }> {
   const adapter = new NextjsAdapter();
   const csrfProtection = createCsrfProtection(adapter, config);
@@ -128,10 +125,70 @@ export function createCsrfMiddleware(config?: CsrfConfig): (
   };
 }
 
+/**
+ * Creates a CSRF validator for Next.js middleware and route handlers that
+ * create their response after validation.
+ *
+ * The validator runs the same checks as {@link createCsrfMiddleware} without
+ * a response. Pass the final response to `attach()` on the result to set the
+ * CSRF headers and cookies, so no `NextResponse.next()` has to be created
+ * up front.
+ *
+ * @public
+ * @param config - Optional CSRF protection configuration
+ * @returns Validator resolving to the protection result and its `attach()`
+ *
+ * @example
+ * ```typescript
+ * // middleware.ts
+ * import { createCsrfValidator } from '@csrf-armor/nextjs';
+ * import { NextRequest, NextResponse } from 'next/server';
+ *
+ * const csrf = createCsrfValidator({
+ *   strategy: 'signed-double-submit',
+ *   secret: process.env.CSRF_SECRET,
+ * });
+ *
+ * export async function middleware(request: NextRequest) {
+ *   const result = await csrf(request);
+ *   if (!result.success) {
+ *     return NextResponse.json({ code: result.code }, { status: 403 });
+ *   }
+ *   return result.attach(NextResponse.next());
+ * }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // app/api/profile/route.ts
+ * export async function POST(request: NextRequest) {
+ *   const result = await csrf(request);
+ *   if (!result.success) {
+ *     return NextResponse.json({ code: result.code }, { status: 403 });
+ *   }
+ *
+ *   const profile = await updateProfile(await request.json());
+ *   return result.attach(NextResponse.json(profile));
+ * }
+ * ```
+ */
+export function createCsrfValidator(
+  config?: CsrfConfig
+): (request: NextRequest) => Promise<CsrfValidationHandle<NextResponse>> {
+  const adapter = new NextjsAdapter();
+  const csrfProtection = createCsrfProtection(adapter, config);
+
+  return async function csrfValidator(request: NextRequest) {
+    return csrfProtection.validate(request);
+  };
+}
+
 // Export types for convenience
 export type {
   CsrfConfig,
+  CsrfFailureCode,
   CsrfStrategy,
   CookieOptions,
+  CsrfValidationHandle,
   TokenOptions,
 } from '@csrf-armor/core';
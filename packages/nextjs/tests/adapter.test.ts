@@ -61,6 +61,19 @@ describe('NextjsAdapter', () => {
 
       expect(result.body).toBe(mockRequest);
     });
+
+    it('should preserve every value of duplicated cookies', () => {
+      const request = new NextRequest('http://localhost/api', {
+        method: 'POST',
+        headers: { cookie: 'csrf-token=mine; csrf-token=planted' },
+      });
+
+      const result = adapter.extractRequest(request);
+
+      expect(result.cookieValues).toEqual(
+        new Map([['csrf-token', ['mine', 'planted']]])
+      );
+    });
   });
 
   describe('applyResponse', () => {
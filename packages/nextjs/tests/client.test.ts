@@ -38,6 +38,17 @@ describe('Client utilities', () => {
       expect(token).toBe('custom-token');
     });
 
+    it('should apply the cookie prefix', () => {
+      document.cookie = '__Host-csrf-token=prefixed-token; Secure; Path=/';
+      expect(getCsrfToken({ cookiePrefix: '__Host-' })).toBe('prefixed-token');
+      expect(
+        getCsrfToken({
+          cookieName: '__Host-csrf-token',
+          cookiePrefix: '__Host-',
+        })
+      ).toBe('prefixed-token');
+    });
+
     it('should decode URI-encoded cookie value', () => {
       document.cookie = 'csrf-token=token%20with%20spaces';
       const token = getCsrfToken();
@@ -95,6 +106,18 @@ describe('Client utilities', () => {
 
       document.head.removeChild(meta);
     });
+
+    it('should fall back to a server-rendered initial token', () => {
+      // The synchronizer strategy sets no CSRF cookie
+      expect(getCsrfToken({ initialToken: 'server-token' })).toBe(
+        'server-token'
+      );
+
+      document.cookie = 'csrf-token=cookie-token';
+      expect(getCsrfToken({ initialToken: 'server-token' })).toBe(
+        'cookie-token'
+      );
+    });
   });
 
   describe('createCsrfHeaders', () => {
@@ -192,6 +215,19 @@ describe('Client utilities', () => {
       expect(headers.get('x-csrf-token')).toBe('override-token');
     });
 
+    it('should send the initial token when no cookie holds one', async () => {
+      await csrfFetch(
+        '/api/data',
+        { method: 'POST' },
+        { initialToken: 'server-token' }
+      );
+
+      const callArgs = (globalThis.fetch as ReturnType<typeof vi.fn>).mock
+        .calls[0];
+      const headers = callArgs[1].headers as Headers;
+      expect(headers.get('x-csrf-token')).toBe('server-token');
+    });
+
     it('should work without a token', async () => {
       await csrfFetch('/api/data');
 
@@ -1,7 +1,7 @@
 import { verifySignedToken, createCsrfProtection } from '@csrf-armor/core';
 import { NextRequest, NextResponse } from 'next/server';
 import { describe, expect, it, vi } from 'vitest';
-import { createCsrfMiddleware } from '../src';
+import { createCsrfMiddleware, createCsrfValidator } from '../src';
 import { NextjsAdapter } from '../src/adapter.js';
 
 describe('CSRF Middleware', () => {
@@ -65,6 +65,48 @@ describe('CSRF Middleware', () => {
     expect(result.response.headers.get('x-csrf-token')).toBeNull();
   });
 
+  it('should skip requests matched by the skip hook', async () => {
+    const csrfProtect = createCsrfMiddleware({
+      skip: (request) =>
+        (request.headers as Headers)
+          .get('authorization')
+          ?.startsWith('Bearer ') === true,
+    });
+
+    const bearer = await csrfProtect(
+      new NextRequest('http://localhost/api/data', {
+        method: 'POST',
+        headers: { authorization: 'Bearer abc' },
+      }),
+      NextResponse.next()
+    );
+    const anonymous = await csrfProtect(
+      new NextRequest('http://localhost/api/data', { method: 'POST' }),
+      NextResponse.next()
+    );
+
+    expect(bearer.success).toBe(true);
+    expect(anonymous.success).toBe(false);
+  });
+
+  it('should let failed requests through in report-only mode', async () => {
+    const csrfProtect = createCsrfMiddleware({
+      strategy: 'double-submit',
+      mode: 'report-only',
+    });
+
+    const result = await csrfProtect(
+      new NextRequest('http://localhost/api/data', { method: 'POST' }),
+      NextResponse.next()
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.code).toBe('MISSING_COOKIE');
+    expect(result.response.headers.get('x-csrf-report')).toBe(
+      'MISSING_COOKIE'
+    );
+  });
+
   it('should set csrf cookie', async () => {
     const csrfProtect = createCsrfMiddleware({
       cookie: { name: 'test-csrf' },
@@ -278,6 +320,7 @@ describe('CSRF Middleware', () => {
 
     expect(postResult.success).toBe(false);
     expect(postResult.reason).toBe('Token mismatch');
+    expect(postResult.code).toBe('TOKEN_MISMATCH');
   });
 
   // NEW TEST - Ensure client cookie and server cookie are in sync
@@ -332,6 +375,7 @@ describe('CSRF Middleware', () => {
 
     expect(postResult.success).toBe(false);
     expect(postResult.reason).toBe('Cookie integrity check failed');
+    expect(postResult.code).toBe('COOKIE_INTEGRITY');
   });
 
   it('should generate signed token for signed-token strategy', async () => {
@@ -505,3 +549,31 @@ describe('CSRF Middleware', () => {
     expect(postResult.reason).toContain('not allowed');
   });
 });
+
+describe('CSRF Validator', () => {
+  it('should attach tokens to a response created after validation', async () => {
+    const csrf = createCsrfValidator({
+      strategy: 'signed-double-submit',
+      secret: 'test-secret-32-characters-long-123',
+    });
+
+    const result = await csrf(new NextRequest('http://localhost/'));
+    const response = result.attach(NextResponse.json({ ok: true }));
+
+    expect(result.success).toBe(true);
+    expect(response.headers.get('x-csrf-token')).toBe(result.token);
+    expect(response.cookies.get('csrf-token')?.value).toBe(result.token);
+    expect(response.cookies.get('csrf-token-server')).toBeDefined();
+  });
+
+  it('should reject POST requests without a token', async () => {
+    const csrf = createCsrfValidator({ strategy: 'double-submit' });
+
+    const result = await csrf(
+      new NextRequest('http://localhost/api', { method: 'POST' })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('MISSING_COOKIE');
+  });
+});
@@ -1,4 +1,4 @@
-import type { CsrfConfig } from '@csrf-armor/core';
+import type { CookiePrefix, CsrfConfig } from '@csrf-armor/core';
 import {
   addImports,
   addPlugin,
@@ -26,7 +26,14 @@ export {
   verifySignedToken,
 } from '@csrf-armor/core';
 
-export interface ModuleOptions extends CsrfConfig {}
+export interface ModuleOptions extends CsrfConfig {
+  /**
+   * Register the CSRF server middleware automatically (default: true).
+   * Disable it to register your own with `createCsrfMiddleware` from
+   * `@csrf-armor/nuxt/server`, e.g. to use the `skip` hook.
+   */
+  serverMiddleware?: boolean;
+}
 
 /**
  * Deep merges `overrides` into `defaults`, with `overrides` taking priority.
@@ -67,9 +74,11 @@ const module: NuxtModule<ModuleOptions> = defineNuxtModule<ModuleOptions>({
   setup(options, nuxt) {
     const resolver = createResolver(import.meta.url);
 
+    const { serverMiddleware = true, ...csrfOptions } = options;
+
     // Merge module options with any existing runtimeConfig (host app values take priority)
     const mergedConfig = mergeDefaults(
-      options,
+      csrfOptions as CsrfConfig,
       // biome-ignore lint/complexity/useLiteralKeys: runtimeConfig uses index signatures
       nuxt.options.runtimeConfig['csrfArmor'] as Partial<CsrfConfig> | undefined
     );
@@ -83,19 +92,30 @@ const module: NuxtModule<ModuleOptions> = defineNuxtModule<ModuleOptions>({
         // biome-ignore lint/complexity/useLiteralKeys: CsrfConfig uses index signatures
         cookieName: mergedConfig['cookie']?.name ?? 'csrf-token',
         // biome-ignore lint/complexity/useLiteralKeys: CsrfConfig uses index signatures
+        ...(mergedConfig['cookie']?.prefix && {
+          // biome-ignore lint/complexity/useLiteralKeys: CsrfConfig uses index signatures
+          cookiePrefix: mergedConfig['cookie'].prefix,
+        }),
+        // biome-ignore lint/complexity/useLiteralKeys: CsrfConfig uses index signatures
         headerName: mergedConfig['token']?.headerName ?? 'x-csrf-token',
       },
       // biome-ignore lint/complexity/useLiteralKeys: runtimeConfig uses index signatures
       nuxt.options.runtimeConfig.public['csrfArmor'] as
-        | { cookieName?: string; headerName?: string }
+        | {
+            cookieName?: string;
+            cookiePrefix?: CookiePrefix;
+            headerName?: string;
+          }
         | undefined
     );
 
     // Register server middleware for CSRF protection
-    addServerHandler({
-      handler: resolver.resolve('./runtime/server/middleware'),
-      middleware: true,
-    });
+    if (serverMiddleware) {
+      addServerHandler({
+        handler: resolver.resolve('./runtime/server/middleware'),
+        middleware: true,
+      });
+    }
 
     // Register composables for auto-import
     addImports([
@@ -1,5 +1,5 @@
 // @ts-expect-error - Nuxt auto-imports resolved at build time
-import { useFetch, useRuntimeConfig } from '#imports';
+import { useFetch, useRuntimeConfig, useState } from '#imports';
 import type { UseFetchOptions } from 'nuxt/app';
 import type { CsrfArmorPublicConfig } from '../types';
 import { getCsrfToken } from '../utils/client';
@@ -9,7 +9,8 @@ import { getCsrfToken } from '../utils/client';
  *
  * Uses the `onRequest` interceptor to attach a fresh token per-request,
  * ensuring the header value is always current even for retried or
- * long-lived requests.
+ * long-lived requests. Falls back to the token shared by `useCsrfToken`
+ * when no cookie holds one, e.g. with the `synchronizer` strategy.
  *
  * @param url - Request URL (same as useFetch first argument)
  * @param opts - useFetch options, CSRF headers are merged into existing headers
@@ -26,12 +27,19 @@ export function useCsrfFetch<T>(
     | undefined;
 
   const cookieName = publicConfig?.cookieName ?? 'csrf-token';
+  const cookiePrefix = publicConfig?.cookiePrefix;
   const headerName = publicConfig?.headerName ?? 'x-csrf-token';
+  // Not initialized here, so useCsrfToken can still seed it on the server
+  const csrfToken = useState<string | null>('csrf-token');
 
   return useFetch<T>(url, {
     ...opts,
     async onRequest(context) {
-      const token = getCsrfToken({ cookieName });
+      const token = getCsrfToken({
+        cookieName,
+        ...(cookiePrefix && { cookiePrefix }),
+        ...(csrfToken.value && { initialToken: csrfToken.value }),
+      });
       if (token) {
         const headers = new Headers(
           context.options.headers as HeadersInit | undefined
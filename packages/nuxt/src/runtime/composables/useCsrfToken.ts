@@ -1,5 +1,7 @@
 import { effectScope, watch } from 'vue';
 // @ts-expect-error - Nuxt auto-imports resolved at build time
+import { useRequestEvent } from '#imports';
+// @ts-expect-error - Nuxt auto-imports resolved at build time
 import { useRoute, useRuntimeConfig, useState } from '#imports';
 import type { CsrfArmorPublicConfig } from '../types';
 import {
@@ -22,6 +24,17 @@ let globalScope: ReturnType<typeof effectScope> | null = null;
  */
 let resolvedConfig: CsrfClientConfig | null = null;
 
+/**
+ * Returns `config` with `token` as the `initialToken` fallback, so a token
+ * that no cookie holds, e.g. with the `synchronizer` strategy, is kept.
+ */
+function withTokenFallback(
+  config: CsrfClientConfig,
+  token: string | null
+): CsrfClientConfig {
+  return token ? { ...config, initialToken: token } : config;
+}
+
 /**
  * Sets up app-level route watcher and popstate listener.
  * These are registered once and live for the entire SPA session,
@@ -44,7 +57,9 @@ function initGlobalListeners(
     watch(
       () => route.path,
       () => {
-        const newToken = getCsrfToken(config);
+        const newToken = getCsrfToken(
+          withTokenFallback(config, csrfToken.value)
+        );
         if (newToken !== csrfToken.value) {
           csrfToken.value = newToken;
         }
@@ -89,19 +104,28 @@ export function useCsrfToken() {
 
   resolvedConfig ??= {
     cookieName: publicConfig?.cookieName ?? 'csrf-token',
+    ...(publicConfig?.cookiePrefix && {
+      cookiePrefix: publicConfig.cookiePrefix,
+    }),
     headerName: publicConfig?.headerName ?? 'x-csrf-token',
   };
 
   const config = resolvedConfig;
 
-  // useState: request-isolated on server, shared singleton on client
-  const csrfToken = useState<string | null>('csrf-token', () =>
-    getCsrfToken(config)
-  );
+  // useState: request-isolated on server, shared singleton on client. On the
+  // server it starts from the token issued by the CSRF middleware, which
+  // reaches the client in the payload even when no cookie holds it.
+  const csrfToken = useState<string | null>('csrf-token', () => {
+    if (import.meta.server) {
+      const issued: string | undefined = useRequestEvent()?.context.csrfToken;
+      return issued ?? null;
+    }
+    return getCsrfToken(config);
+  });
 
   /** Reads the current CSRF token from cookies and updates the reactive ref. */
   function updateToken(): void {
-    const newToken = getCsrfToken(config);
+    const newToken = getCsrfToken(withTokenFallback(config, csrfToken.value));
     if (newToken !== csrfToken.value) {
       csrfToken.value = newToken;
     }
@@ -115,7 +139,11 @@ export function useCsrfToken() {
     input: RequestInfo | URL,
     init?: RequestInit
   ): Promise<Response> {
-    const response = await clientCsrfFetch(input, init, config);
+    const response = await clientCsrfFetch(
+      input,
+      init,
+      withTokenFallback(config, csrfToken.value)
+    );
 
     const newToken = response.headers.get(config.headerName ?? 'x-csrf-token');
 
@@ -17,6 +17,9 @@ export default defineNuxtPlugin(() => {
 
   const token = getCsrfToken({
     cookieName: publicConfig?.cookieName ?? 'csrf-token',
+    ...(publicConfig?.cookiePrefix && {
+      cookiePrefix: publicConfig.cookiePrefix,
+    }),
   });
 
   // Shared with useCsrfToken() composable via the same useState key
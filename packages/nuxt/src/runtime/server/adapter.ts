@@ -1,33 +1,14 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
-import type {
-  CookieOptions,
-  CsrfAdapter,
-  CsrfRequest,
-  CsrfResponse,
-  RequiredCsrfConfig,
+import {
+  type CookieOptions,
+  type CsrfAdapter,
+  type CsrfRequest,
+  type CsrfResponse,
+  parseCookieHeader,
+  type RequiredCsrfConfig,
 } from '@csrf-armor/core';
 import type { H3Event } from 'h3';
 
-/** Parses a raw Cookie header string into a name→value map. */
-function parseCookieHeader(
-  cookieHeader: string | null
-): Record<string, string> {
-  if (!cookieHeader) return {};
-  const result: Record<string, string> = {};
-  for (const pair of cookieHeader.split(';')) {
-    const eqIndex = pair.indexOf('=');
-    if (eqIndex === -1) continue;
-    const name = pair.slice(0, eqIndex).trim();
-    const value = pair.slice(eqIndex + 1).trim();
-    try {
-      result[name] = decodeURIComponent(value);
-    } catch {
-      result[name] = value;
-    }
-  }
-  return result;
-}
-
 /** Serializes a cookie name/value and options into a Set-Cookie header string. */
 function serializeCookie(
   name: string,
@@ -107,26 +88,32 @@ export class NuxtAdapter implements CsrfAdapter<H3Event, H3Event> {
   }
 
   extractRequest(event: H3Event): CsrfRequest {
-    const rawCookies = parseCookieHeader(event.headers.get('cookie'));
-    const cookies = new Map<string, string>(Object.entries(rawCookies));
-
-    // Reconstruct the full URL from the H3Event's native properties
-    const host =
-      event.headers.get('x-forwarded-host') ??
-      event.headers.get('host') ??
-      'localhost';
-    const proto =
-      (event.headers.get('x-forwarded-proto') ?? 'http')
-        .split(',')[0]
-        ?.trim() ?? 'http';
+    const cookieValues = parseCookieHeader(event.headers.get('cookie'));
+    // The last value wins, as with a plain name→value parse
+    const cookies = new Map<string, string>();
+    for (const [name, values] of cookieValues) {
+      const value = values[values.length - 1];
+      if (value !== undefined) cookies.set(name, value);
+    }
+
+    // Reconstruct the full URL from the H3Event's native properties. Forwarded
+    // headers are only honoured by core, for the configured trusted proxies.
+    const socket = event.node.req.socket as
+      | (IncomingMessage['socket'] & { encrypted?: boolean })
+      | undefined;
+    const protocol = socket?.encrypted ? 'https' : 'http';
+    const host = event.headers.get('host') ?? 'localhost';
     const path = event.path.startsWith('/') ? event.path : `/${event.path}`;
 
     return {
       method: event.method,
-      url: new URL(path, `${proto}://${host}`).href,
+      url: new URL(path, `${protocol}://${host}`).href,
       headers: event.headers, // Web Headers API — accepted directly by core
       cookies,
+      cookieValues,
       body: event,
+      protocol,
+      ...(socket?.remoteAddress ? { remoteAddress: socket.remoteAddress } : {}),
     };
   }
 
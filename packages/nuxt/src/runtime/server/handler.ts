@@ -0,0 +1,59 @@
+import { type CsrfConfig, createCsrfProtection } from '@csrf-armor/core';
+import type { H3Event } from 'h3';
+import { NuxtAdapter } from './adapter';
+
+/**
+ * Creates a CSRF protection handler for Nitro server middleware.
+ *
+ * The Nuxt module registers one automatically from `runtimeConfig.csrfArmor`.
+ * Use this factory instead when the configuration needs functions, such as
+ * the `skip` and `requireProtection` hooks, which runtime config cannot
+ * carry; set `serverMiddleware: false` in the module options to avoid
+ * protecting requests twice.
+ *
+ * On success, stores the generated token on `event.context.csrfToken`.
+ * On failure, throws a 403 error with the validation reason and failure code
+ * in `data`.
+ *
+ * @param config - CSRF protection configuration
+ * @returns Handler to wrap with `defineEventHandler`
+ *
+ * @example
+ * ```typescript
+ * // server/middleware/csrf.ts
+ * import { createCsrfMiddleware } from '@csrf-armor/nuxt/server';
+ *
+ * export default defineEventHandler(
+ *   createCsrfMiddleware({
+ *     ...useRuntimeConfig().csrfArmor,
+ *     skip: (req) => isBearerOnly(req),
+ *   })
+ * );
+ * ```
+ */
+export function createCsrfMiddleware(
+  config?: CsrfConfig
+): (event: H3Event) => Promise<void> {
+  const adapter = new NuxtAdapter();
+  const csrfProtection = createCsrfProtection<H3Event, H3Event>(
+    adapter,
+    config
+  );
+
+  return async (event: H3Event) => {
+    const result = await csrfProtection.protect(event, event);
+
+    if (!result.success) {
+      throw Object.assign(new Error('CSRF validation failed'), {
+        statusCode: 403,
+        statusMessage: 'CSRF validation failed',
+        data: { reason: result.reason, code: result.code },
+      });
+    }
+
+    if (result.token) {
+      // biome-ignore lint/complexity/useLiteralKeys: H3EventContext uses index signatures
+      event.context['csrfToken'] = result.token;
+    }
+  };
+}
@@ -3,5 +3,6 @@
  */
 export interface CsrfArmorPublicConfig {
   cookieName?: string;
+  cookiePrefix?: '__Host-' | '__Secure-';
   headerName?: string;
 }
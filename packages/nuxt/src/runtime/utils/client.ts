@@ -4,24 +4,38 @@
 export interface CsrfClientConfig {
   /** Name of the cookie containing the CSRF token (default: 'csrf-token') */
   cookieName?: string;
+  /** Cookie name prefix configured with `cookie.prefix` (default: none) */
+  cookiePrefix?: '__Host-' | '__Secure-';
   /** Name of the header to send the CSRF token in (default: 'x-csrf-token') */
   headerName?: string;
-  /** Initial token value if available */
+  /**
+   * Token rendered server-side, used when neither the CSRF cookie nor a
+   * `csrf-token` meta tag holds one, e.g. with the `synchronizer` strategy
+   */
   initialToken?: string;
   /** Endpoint to use for token refresh (default: current pathname) */
   refreshEndpoint?: string;
 }
 
+/** Returns the full CSRF cookie name, including any cookie prefix. */
+function getCookieName(config?: CsrfClientConfig): string {
+  const name = config?.cookieName ?? 'csrf-token';
+  const prefix = config?.cookiePrefix;
+  return prefix && !name.startsWith(prefix) ? `${prefix}${name}` : name;
+}
+
 /**
- * Retrieves the current CSRF token from cookies or meta tag fallback.
+ * Retrieves the current CSRF token from cookies, falling back to a
+ * `csrf-token` meta tag and then `config.initialToken`. The `synchronizer`
+ * strategy sets no CSRF cookie, so its token must come from the server.
  *
- * @param config - Optional configuration for cookie name
+ * @param config - Optional configuration for cookie name and prefix
  * @returns The CSRF token string, or null if not found
  */
 export function getCsrfToken(config?: CsrfClientConfig): string | null {
   if (!import.meta.client) return null;
 
-  const cookieName = config?.cookieName ?? 'csrf-token';
+  const cookieName = getCookieName(config);
 
   const cookies = document.cookie.split(';');
   const csrfCookie = cookies.find((c) => c.trim().startsWith(`${cookieName}=`));
@@ -35,9 +49,9 @@ export function getCsrfToken(config?: CsrfClientConfig): string | null {
     }
   }
 
-  // Fallback to meta tag
+  // Fallback to meta tag, then to a token rendered server-side
   const metaTag = document.querySelector('meta[name="csrf-token"]');
-  return metaTag?.getAttribute('content') ?? null;
+  return metaTag?.getAttribute('content') ?? config?.initialToken ?? null;
 }
 
 /**
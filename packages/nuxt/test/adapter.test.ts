@@ -141,6 +141,47 @@ describe('NuxtAdapter', () => {
 
       expect(result.body).toBe(mockEvent);
     });
+
+    it('should preserve every value of duplicated cookies', () => {
+      const mockEvent = createMockEvent({
+        method: 'POST',
+        path: '/api',
+        headers: {
+          host: 'localhost',
+          cookie: 'csrf-token=mine; csrf-token=planted',
+        },
+      });
+
+      const result = adapter.extractRequest(mockEvent as unknown as H3Event);
+
+      expect(result.cookieValues).toEqual(
+        new Map([['csrf-token', ['mine', 'planted']]])
+      );
+      expect((result.cookies as Map<string, string>).get('csrf-token')).toBe(
+        'planted'
+      );
+    });
+
+    it('should leave forwarded headers to core and report the peer address', () => {
+      const mockEvent = createMockEvent({
+        method: 'POST',
+        path: '/api',
+        headers: {
+          host: 'internal:3000',
+          'x-forwarded-host': 'app.example.com',
+          'x-forwarded-proto': 'https',
+        },
+      });
+      Object.assign(mockEvent.node.req, {
+        socket: { remoteAddress: '10.0.0.1' },
+      });
+
+      const result = adapter.extractRequest(mockEvent as unknown as H3Event);
+
+      expect(result.url).toBe('http://internal:3000/api');
+      expect(result.protocol).toBe('http');
+      expect(result.remoteAddress).toBe('10.0.0.1');
+    });
   });
 
   describe('applyResponse', () => {
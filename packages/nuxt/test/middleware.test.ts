@@ -3,6 +3,7 @@ import { createCsrfProtection, verifySignedToken } from '@csrf-armor/core';
 import type { H3Event } from 'h3';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { NuxtAdapter } from '../src/runtime/server/adapter';
+import { createCsrfMiddleware } from '../src/runtime/server/handler';
 
 interface MockServerResponse {
   setHeader: ReturnType<typeof vi.fn>;
@@ -335,3 +336,66 @@ describe('Nuxt CSRF Middleware Integration', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('createCsrfMiddleware', () => {
+  it('should store the token on the event context', async () => {
+    const handler = createCsrfMiddleware();
+    const event = createGetEvent();
+
+    await handler(event);
+
+    // biome-ignore lint/complexity/useLiteralKeys: H3EventContext uses index signatures
+    expect(event.context['csrfToken']).toBeDefined();
+  });
+
+  it('should throw a 403 error with the reason on failure', async () => {
+    const handler = createCsrfMiddleware({ strategy: 'double-submit' });
+    const event = createPostEvent('http://localhost/api', {}, {});
+
+    await expect(handler(event)).rejects.toMatchObject({
+      statusCode: 403,
+      data: { reason: expect.any(String), code: 'MISSING_COOKIE' },
+    });
+  });
+
+  it('should honour the skip and requireProtection hooks', async () => {
+    const handler = createCsrfMiddleware({
+      strategy: 'double-submit',
+      skip: (req) =>
+        (req.headers as Headers).get('authorization')?.startsWith('Bearer ') ===
+        true,
+      requireProtection: (req) =>
+        (req.cookies as Map<string, string>).has('session'),
+    });
+
+    await expect(
+      handler(
+        createPostEvent(
+          'http://localhost/api',
+          { authorization: 'Bearer abc' },
+          {}
+        )
+      )
+    ).resolves.toBeUndefined();
+    await expect(
+      handler(
+        createPostEvent(
+          'http://localhost/api',
+          { authorization: 'Bearer abc' },
+          { session: 'abc' }
+        )
+      )
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('should let failed requests through in report-only mode', async () => {
+    const handler = createCsrfMiddleware({
+      strategy: 'double-submit',
+      mode: 'report-only',
+    });
+    const event = createPostEvent('http://localhost/api', {}, {});
+
+    await expect(handler(event)).resolves.toBeUndefined();
+    expect(getResponseHeaders(event)['x-csrf-report']).toBe('MISSING_COOKIE');
+  });
+});
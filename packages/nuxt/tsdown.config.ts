@@ -5,6 +5,7 @@ export default defineConfig({
     'src/module.ts',
     'src/runtime/utils/client.ts',
     'src/runtime/server/adapter.ts',
+    'src/runtime/server/handler.ts',
     'src/runtime/server/middleware.ts',
     'src/runtime/composables/useCsrfToken.ts',
     'src/runtime/composables/useCsrfFetch.ts',